@@ -1,22 +1,33 @@
 import { defineConfig } from 'rolldown'
 
-const external = ['@effect-atom/atom-react', '@tanstack/db', 'effect']
+// Peer dependencies stay external, including subpath imports such as effect/Schema
+const external = [/^effect(\/|$)/, /^@tanstack\/db/, /^@effect-atom\/atom-react/]
+
+// Both entry points share one chunk, so the testing utilities see the same module state as the atoms
+const input = {
+	index: 'src/index.ts',
+	testing: 'src/testing.ts',
+}
 
 export default defineConfig([
 	{
-    input: 'src/index.ts',
+    input,
     external,
 		output: {
-			file: 'dist/index.js',
+			dir: 'dist',
       format: 'esm',
+			entryFileNames: '[name].js',
+			chunkFileNames: '[name]-[hash].js',
     },
 	},
 	{
-    input: 'src/index.ts',
+    input,
 		external,
 		output: {
-			file: 'dist/index.cjs',
+			dir: 'dist',
 			format: 'cjs',
+			entryFileNames: '[name].cjs',
+			chunkFileNames: '[name]-[hash].cjs',
 		},
 
 	},
@@ -0,0 +1,189 @@
+/**
+ * Aggregate Atom Tests for TanStack DB Atom
+ *
+ * These tests verify that count, aggregate and grouped atoms build aggregate
+ * queries, select a scalar or keyed Map from their rows, and stay reactive.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { count, eq, max, min, sum } from "@tanstack/db"
+import * as Option from "effect/Option"
+import { describe, expect, it } from "vitest"
+import { makeAggregateAtom, makeCountAtom, makeGroupedAtom, makeQuery } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+
+// Test data types
+type Todo = {
+	id: string
+	projectId: string
+	estimate: number
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", projectId: "a", estimate: 3, completed: false },
+	{ id: "2", projectId: "a", estimate: 5, completed: true },
+	{ id: "3", projectId: "b", estimate: 1, completed: false },
+]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("makeCountAtom", () => {
+	it("should count the rows of a query", async () => {
+		const registry = Registry.make()
+		const { collection: todos, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+		const countAtom = makeCountAtom((q) => q.from({ todos }).where(({ todos }) => eq(todos.completed, false)))
+
+		const unsubscribe = registry.subscribe(countAtom, () => {})
+		expect(Option.getOrThrow(Result.value(registry.get(countAtom)))).toBe(2)
+
+		apply({ type: "insert", value: { id: "4", projectId: "b", estimate: 2, completed: false } })
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(countAtom)))).toBe(3)
+
+		unsubscribe()
+	})
+
+	it("should count 0 for an empty result", async () => {
+		const registry = Registry.make()
+		const { collection: todos, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos.slice(0, 1),
+		})
+		const countAtom = makeCountAtom((q) => q.from({ todos }))
+
+		const unsubscribe = registry.subscribe(countAtom, () => {})
+		expect(Option.getOrThrow(Result.value(registry.get(countAtom)))).toBe(1)
+
+		apply({ type: "delete", value: initialTodos[0]! })
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(countAtom)))).toBe(0)
+
+		unsubscribe()
+	})
+})
+
+describe("makeAggregateAtom", () => {
+	it("should compute sum, min and max", async () => {
+		const registry = Registry.make()
+		const { collection: todos, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+		const totalAtom = makeAggregateAtom((q) => q.from({ todos }), ({ todos }) => sum(todos.estimate))
+		const minAtom = makeAggregateAtom((q) => q.from({ todos }), ({ todos }) => min(todos.estimate))
+		const maxAtom = makeAggregateAtom((q) => q.from({ todos }), ({ todos }) => max(todos.estimate))
+
+		const unsubscribes = [totalAtom, minAtom, maxAtom].map((atom) => registry.subscribe(atom, () => {}))
+		expect(Option.getOrThrow(Result.value(registry.get(totalAtom)))).toBe(9)
+		expect(Option.getOrThrow(Result.value(registry.get(minAtom)))).toBe(1)
+		expect(Option.getOrThrow(Result.value(registry.get(maxAtom)))).toBe(5)
+
+		apply({ type: "insert", value: { id: "4", projectId: "b", estimate: 8, completed: false } })
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(totalAtom)))).toBe(17)
+		expect(Option.getOrThrow(Result.value(registry.get(maxAtom)))).toBe(8)
+
+		unsubscribes.forEach((unsubscribe) => unsubscribe())
+	})
+
+	it("should be undefined for an empty result", () => {
+		const registry = Registry.make()
+		const { collection: todos } = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: [] })
+		const totalAtom = makeAggregateAtom((q) => q.from({ todos }), ({ todos }) => sum(todos.estimate))
+
+		const unsubscribe = registry.subscribe(totalAtom, () => {})
+		const result = registry.get(totalAtom)
+		expect(Result.isSuccess(result)).toBe(true)
+		expect(Option.getOrThrow(Result.value(result))).toBeUndefined()
+
+		unsubscribe()
+	})
+})
+
+describe("makeGroupedAtom", () => {
+	it("should map each group key to its aggregates", async () => {
+		const registry = Registry.make()
+		const { collection: todos, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+		const byProjectAtom = makeGroupedAtom(
+			(q) => q.from({ todos }),
+			({ todos }) => todos.projectId,
+			({ todos }) => ({ total: sum(todos.estimate), largest: max(todos.estimate) }),
+		)
+
+		const unsubscribe = registry.subscribe(byProjectAtom, () => {})
+		const byProject = Option.getOrThrow(Result.value(registry.get(byProjectAtom)))
+		expect(byProject).toEqual(
+			new Map([
+				["a", { total: 8, largest: 5 }],
+				["b", { total: 1, largest: 1 }],
+			]),
+		)
+
+		apply({ type: "delete", value: initialTodos[2]! })
+		apply({ type: "insert", value: { id: "4", projectId: "c", estimate: 2, completed: false } })
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(byProjectAtom)))).toEqual(
+			new Map([
+				["a", { total: 8, largest: 5 }],
+				["c", { total: 2, largest: 2 }],
+			]),
+		)
+
+		unsubscribe()
+	})
+	it("should keep the type of numeric group keys", () => {
+		const registry = Registry.make()
+		const { collection: todos } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+		const byEstimateAtom = makeGroupedAtom(
+			(q) => q.from({ todos }),
+			({ todos }) => todos.estimate,
+			({ todos }) => ({ todos: count(todos.id) }),
+		)
+
+		const unsubscribe = registry.subscribe(byEstimateAtom, () => {})
+		const byEstimate = Option.getOrThrow(Result.value(registry.get(byEstimateAtom)))
+		expect([...byEstimate.keys()].sort()).toEqual([1, 3, 5])
+		expect(byEstimate.get(3)).toEqual({ todos: 1 })
+
+		unsubscribe()
+	})
+})
+
+describe("singleResult queries", () => {
+	it("should still select the first row of a findOne query", () => {
+		const registry = Registry.make()
+		const { collection: todos } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+		const todoAtom = makeQuery((q) =>
+			q
+				.from({ todos })
+				.where(({ todos }) => eq(todos.id, "2"))
+				.findOne(),
+		)
+
+		const unsubscribe = registry.subscribe(todoAtom, () => {})
+		expect(Option.getOrThrow(Result.value(registry.get(todoAtom)))).toEqual(initialTodos[1])
+
+		unsubscribe()
+	})
+})
@@ -0,0 +1,137 @@
+/**
+ * Diagnostics Tests for TanStack DB Atom
+ *
+ * These tests verify that enabled diagnostics record the collection, query, status
+ * changes and change batches of every mounted collection and query atom.
+ *
+ * @since 1.0.0
+ */
+
+import { eq } from "@tanstack/db"
+import { afterEach, describe, expect, it } from "vitest"
+import { enableDbAtomDiagnostics, getDbAtomDiagnostics, makeCollectionAtom, makeQuery } from "./atom-tanstack-db"
+import { makeTestCollection, makeTestRegistry } from "./testing"
+import type { DbAtomDiagnosticsEvent, UnsubscribeFn } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("getDbAtomDiagnostics", () => {
+	let disable: UnsubscribeFn | undefined
+
+	afterEach(() => {
+		disable?.()
+		disable = undefined
+	})
+
+	it("should be empty while diagnostics are disabled", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { record, dispose } = makeTestRegistry()
+		record(makeCollectionAtom(todos.collection))
+
+		expect(getDbAtomDiagnostics()).toEqual([])
+
+		dispose()
+	})
+
+	it("should record a collection atom's status changes and change batches", () => {
+		disable = enableDbAtomDiagnostics()
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const { record, dispose } = makeTestRegistry()
+		record(makeCollectionAtom(todos.collection))
+
+		// The atom keeps waiting while rows arrive before the collection is ready
+		todos.apply(...initialTodos.map((value) => ({ type: "insert" as const, value })))
+		todos.markReady()
+
+		const [diagnostics] = getDbAtomDiagnostics()
+		expect(diagnostics).toMatchObject({
+			kind: "Collection",
+			collectionId: "todos",
+			query: undefined,
+			subscriberCount: 1,
+			status: "ready",
+		})
+		expect(diagnostics!.statusChanges.map((change) => change.status)).toEqual(["loading", "ready"])
+		expect(diagnostics!.batches.map(({ size, emitted }) => ({ size, emitted }))).toEqual([
+			{ size: 2, emitted: false },
+			{ size: 0, emitted: true },
+		])
+
+		dispose()
+	})
+
+	it("should record a query atom's query IR", () => {
+		disable = enableDbAtomDiagnostics()
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { record, dispose } = makeTestRegistry()
+		record(makeQuery((q) => q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.completed, false))))
+
+		const [diagnostics] = getDbAtomDiagnostics()
+		expect(diagnostics!.kind).toBe("Query")
+		expect(diagnostics!.query?.from.alias).toBe("todos")
+		expect(diagnostics!.query?.where).toHaveLength(1)
+		expect(diagnostics!.status).toBe("ready")
+
+		dispose()
+	})
+
+	it("should emit events and forget unmounted atoms", async () => {
+		const events: Array<DbAtomDiagnosticsEvent> = []
+		disable = enableDbAtomDiagnostics({ onEvent: (event) => events.push(event) })
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(todos.collection))
+
+		todos.apply({ type: "delete", key: "1" })
+		recording.unmount()
+		await flush()
+
+		expect(events.map((event) => event._tag)).toEqual(["Mounted", "ChangeBatch", "Unmounted"])
+		expect(getDbAtomDiagnostics()).toEqual([])
+
+		dispose()
+	})
+
+	it("should keep a bounded history", () => {
+		disable = enableDbAtomDiagnostics({ historySize: 2 })
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id })
+		const { record, dispose } = makeTestRegistry()
+		record(makeCollectionAtom(todos.collection))
+
+		for (let i = 0; i < 5; i++) {
+			todos.apply({ type: "insert", value: { id: `${i}`, title: `Task ${i}`, completed: false } })
+		}
+
+		expect(getDbAtomDiagnostics()[0]!.batches).toHaveLength(2)
+
+		dispose()
+	})
+
+	it("should stop recording once disabled", () => {
+		const events: Array<DbAtomDiagnosticsEvent> = []
+		disable = enableDbAtomDiagnostics({ onEvent: (event) => events.push(event) })
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { record, dispose } = makeTestRegistry()
+		record(makeCollectionAtom(todos.collection))
+
+		disable()
+		todos.apply({ type: "delete", key: "1" })
+
+		expect(events.map((event) => event._tag)).toEqual(["Mounted"])
+		expect(getDbAtomDiagnostics()).toEqual([])
+
+		dispose()
+	})
+})
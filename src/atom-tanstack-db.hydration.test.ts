@@ -0,0 +1,133 @@
+/**
+ * Hydration Tests for TanStack DB Atom
+ *
+ * These tests verify that dehydrate preloads query atoms and snapshots their
+ * collections' encoded rows, and that hydrated collections start ready on the
+ * client without loading again while their changes keep syncing.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { createCollection } from "@tanstack/db"
+import * as Cause from "effect/Cause"
+import * as Data from "effect/Data"
+import * as Effect from "effect/Effect"
+import * as Exit from "effect/Exit"
+import * as Option from "effect/Option"
+import * as Queue from "effect/Queue"
+import * as Runtime from "effect/Runtime"
+import * as Schema from "effect/Schema"
+import * as Stream from "effect/Stream"
+import { describe, expect, it } from "vitest"
+import { dehydrate, effectCollectionOptions, hydrate, makeQuery } from "./atom-tanstack-db"
+import { CollectionLoadError } from "./types"
+
+const Event = Schema.Struct({
+	id: Schema.String,
+	title: Schema.String,
+	startsAt: Schema.Date,
+})
+
+type Event = typeof Event.Type
+
+const encodedEvents: Array<typeof Event.Encoded> = [
+	{ id: "1", title: "Launch", startsAt: "2024-01-01T00:00:00.000Z" },
+	{ id: "2", title: "Retro", startsAt: "2024-01-02T00:00:00.000Z" },
+]
+
+class FetchError extends Data.TaggedError("FetchError")<{ readonly status: number }> {}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// Helper to create an Effect-driven events collection whose loads are counted
+function createEventCollection(load: Effect.Effect<ReadonlyArray<typeof Event.Encoded>, FetchError>) {
+	let loads = 0
+	const queue = Effect.runSync(Queue.unbounded<{ type: "insert"; value: typeof Event.Encoded }>())
+	const collection = createCollection(
+		effectCollectionOptions({
+			id: "events",
+			getKey: (event: Event) => event.id,
+			schema: Event,
+			load: Effect.suspend(() => {
+				loads++
+				return load
+			}),
+			changes: Stream.fromQueue(queue),
+			runtime: Runtime.defaultRuntime,
+		}),
+	)
+	return { collection, queue, loads: () => loads }
+}
+
+describe("dehydrate and hydrate", () => {
+	it("should resume the collection on the client from the server snapshot", async () => {
+		// Server
+		const server = createEventCollection(Effect.succeed(encodedEvents).pipe(Effect.delay("1 millis")))
+		const serverQuery = makeQuery((q) => q.from({ events: server.collection }))
+		const state = await Effect.runPromise(dehydrate(Registry.make(), [serverQuery], [server.collection]))
+
+		expect(server.loads()).toBe(1)
+		// Rows are encoded with the schema, so the state survives JSON
+		expect(state).toEqual({ collections: { events: encodedEvents } })
+		// The preloaded atoms are unmounted once the snapshot is taken
+		await flush()
+		expect(server.collection.subscriberCount).toBe(0)
+		server.collection.cleanup()
+
+		// Client
+		hydrate(JSON.parse(JSON.stringify(state)))
+		const client = createEventCollection(Effect.never)
+		const registry = Registry.make()
+		const eventsAtom = makeQuery((q) => q.from({ events: client.collection }))
+		const unsubscribe = registry.subscribe(eventsAtom, () => {})
+
+		const result = registry.get(eventsAtom)
+		expect(Result.isSuccess(result)).toBe(true)
+		expect(client.loads()).toBe(0)
+		const events = Option.getOrThrow(Result.value(result))
+		expect(events.map((event) => event.id)).toEqual(["1", "2"])
+		expect(events[0]!.startsAt).toBeInstanceOf(Date)
+
+		// Changes keep syncing after hydration
+		Effect.runSync(
+			Queue.offer(client.queue, {
+				type: "insert",
+				value: { id: "3", title: "Planning", startsAt: "2024-01-03T00:00:00.000Z" },
+			}),
+		)
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(eventsAtom)))).toHaveLength(3)
+
+		unsubscribe()
+		await flush()
+		client.collection.cleanup()
+	})
+
+	it("should only hydrate the next sync of a collection", () => {
+		hydrate({ collections: { events: encodedEvents } })
+
+		const first = createEventCollection(Effect.succeed([]))
+		first.collection.startSyncImmediate()
+		expect(first.collection.size).toBe(2)
+		first.collection.cleanup()
+
+		const second = createEventCollection(Effect.succeed([]))
+		second.collection.startSyncImmediate()
+		expect(second.loads()).toBe(1)
+		expect(second.collection.size).toBe(0)
+		second.collection.cleanup()
+	})
+
+	it("should fail with the error of a query atom that does not load", async () => {
+		const server = createEventCollection(Effect.fail(new FetchError({ status: 500 })))
+		const eventsQuery = makeQuery((q) => q.from({ events: server.collection }))
+
+		const exit = await Effect.runPromiseExit(dehydrate(Registry.make(), [eventsQuery], [server.collection]))
+
+		const error = Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none()
+		expect(Option.getOrThrow(error)).toBeInstanceOf(CollectionLoadError)
+		await flush()
+		server.collection.cleanup()
+	})
+})
@@ -0,0 +1,230 @@
+/**
+ * Infinite Query Tests for TanStack DB Atom
+ *
+ * These tests verify that infinite queries load pages by growing the live query's
+ * window, keep every loaded page reactive, and report when there are no more rows.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { type Collection, createCollection, type NonSingleResult } from "@tanstack/db"
+import * as Option from "effect/Option"
+import { describe, expect, it, vi } from "vitest"
+import { makeInfiniteQuery } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+import { type InfiniteQueryData, QueryCompileError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	priority: number
+}
+
+const makeTodos = (count: number): Array<Todo> =>
+	Array.from({ length: count }, (_, i) => ({ id: String(i), title: `Task ${i}`, priority: i }))
+
+// Helper to create an on-demand collection whose requested pages are loaded when resolved manually
+function createOnDemandCollection(
+	id: string,
+	data: Array<Todo>,
+): {
+	collection: Collection<Todo, string | number, any> & NonSingleResult
+	resolveLoad: () => void
+} {
+	let pending: Array<() => void> = []
+
+	const config: any = {
+		id,
+		getKey: (todo: Todo) => todo.id,
+		syncMode: "on-demand",
+		sync: {
+			sync: (params: any) => {
+				params.markReady()
+				return {
+					// Loads `limit` rows after the cursor's priority, like a paginated API
+					loadSubset: (options: { limit?: number; cursor?: { whereFrom: { args: [unknown, { value: number }] } } }) =>
+						new Promise<void>((resolve) => {
+							const after = options.cursor?.whereFrom.args[1].value ?? Number.NEGATIVE_INFINITY
+							pending.push(() => {
+								params.begin()
+								for (const todo of data.filter((todo) => todo.priority > after).slice(0, options.limit)) {
+									params.write({ type: "insert", value: todo })
+								}
+								params.commit()
+								resolve()
+							})
+						}),
+				}
+			},
+		},
+		startSync: true,
+	}
+
+	return {
+		collection: createCollection<Todo>(config),
+		resolveLoad: () => {
+			const loads = pending
+			pending = []
+			for (const load of loads) load()
+		},
+	}
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const getData = (result: Result.Result<InfiniteQueryData<Todo>, unknown>): InfiniteQueryData<Todo> => {
+	if (!Result.isSuccess(result)) {
+		throw new Error(`Expected success, got ${result._tag}`)
+	}
+	return result.value
+}
+
+const pageIds = (data: InfiniteQueryData<Todo>) => data.pages.map((page) => page.map((todo) => todo.id))
+
+describe("makeInfiniteQuery", () => {
+	it("should load the first page", () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(25),
+		})
+
+		const feed = makeInfiniteQuery(
+			(q) => q.from({ todos: collection }).orderBy(({ todos }) => todos.priority),
+			{ pageSize: 10 },
+		)
+
+		const data = getData(registry.get(feed.data))
+		expect(data.pages).toHaveLength(1)
+		expect(pageIds(data)[0]).toEqual(["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"])
+		expect(data.hasMore).toBe(true)
+	})
+
+	it("should grow the window without re-creating the live query", async () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(25),
+		})
+
+		const feed = makeInfiniteQuery(
+			(q) => q.from({ todos: collection }).orderBy(({ todos }) => todos.priority),
+			{ pageSize: 10 },
+		)
+		const unsubscribe = registry.subscribe(feed.data, () => {})
+		const unmount = registry.mount(feed.fetchNextPage)
+
+		const firstPage = getData(registry.get(feed.data)).pages[0]
+		const subscribe = vi.spyOn(collection, "subscribeChanges")
+
+		registry.set(feed.fetchNextPage, undefined)
+		await flush()
+
+		let data = getData(registry.get(feed.data))
+		expect(data.pages.map((page) => page.length)).toEqual([10, 10])
+		expect(data.pages[0]).toEqual(firstPage)
+		expect(data.hasMore).toBe(true)
+		expect(Result.isSuccess(registry.get(feed.fetchNextPage))).toBe(true)
+
+		registry.set(feed.fetchNextPage, undefined)
+		await flush()
+
+		data = getData(registry.get(feed.data))
+		expect(data.pages.map((page) => page.length)).toEqual([10, 10, 5])
+		expect(data.hasMore).toBe(false)
+
+		// The source collection is never subscribed to again
+		expect(subscribe).not.toHaveBeenCalled()
+		expect(collection.subscriberCount).toBe(1)
+
+		unmount()
+		unsubscribe()
+		await flush()
+		expect(collection.subscriberCount).toBe(0)
+	})
+
+	it("should keep loaded pages reactive to changes", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(25),
+		})
+
+		const feed = makeInfiniteQuery(
+			(q) => q.from({ todos: collection }).orderBy(({ todos }) => todos.priority),
+			{ pageSize: 10 },
+		)
+		const unsubscribe = registry.subscribe(feed.data, () => {})
+		const unmount = registry.mount(feed.fetchNextPage)
+		registry.get(feed.data)
+
+		registry.set(feed.fetchNextPage, undefined)
+		await flush()
+
+		apply({ type: "insert", value: { id: "new", title: "Urgent", priority: -1 } })
+		apply({ type: "delete", value: { id: "15", title: "Task 15", priority: 15 } })
+		await flush()
+
+		const data = getData(registry.get(feed.data))
+		expect(pageIds(data)[0]?.[0]).toBe("new")
+		expect(pageIds(data)[1]).toEqual(["9", "10", "11", "12", "13", "14", "16", "17", "18", "19"])
+		expect(data.hasMore).toBe(true)
+
+		unmount()
+		unsubscribe()
+	})
+
+	it("should wait for on-demand sources to load the next page", async () => {
+		const registry = Registry.make()
+		const { collection, resolveLoad } = createOnDemandCollection("todos", makeTodos(8))
+
+		const feed = makeInfiniteQuery(
+			(q) => q.from({ todos: collection }).orderBy(({ todos }) => todos.priority),
+			{ pageSize: 3 },
+		)
+		const unsubscribe = registry.subscribe(feed.data, () => {})
+		const unmount = registry.mount(feed.fetchNextPage)
+		registry.get(feed.data)
+
+		resolveLoad()
+		await flush()
+		expect(pageIds(getData(registry.get(feed.data)))).toEqual([["0", "1", "2"]])
+
+		registry.set(feed.fetchNextPage, undefined)
+		await flush()
+		expect(registry.get(feed.fetchNextPage).waiting).toBe(true)
+
+		resolveLoad()
+		await flush()
+
+		expect(Result.isSuccess(registry.get(feed.fetchNextPage))).toBe(true)
+		const data = getData(registry.get(feed.data))
+		expect(pageIds(data)).toEqual([
+			["0", "1", "2"],
+			["3", "4", "5"],
+		])
+		expect(data.hasMore).toBe(true)
+
+		unmount()
+		unsubscribe()
+	})
+
+	it("should fail with a QueryCompileError without orderBy", () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(5),
+		})
+
+		const feed = makeInfiniteQuery((q) => q.from({ todos: collection }), { pageSize: 10 })
+
+		const error = Option.getOrThrow(Result.error(registry.get(feed.data)))
+		expect(error).toBeInstanceOf(QueryCompileError)
+	})
+})
@@ -0,0 +1,406 @@
+/**
+ * Mutation Atom Tests for TanStack DB Atom
+ *
+ * These tests verify that mutation atoms apply optimistic changes, track
+ * transaction persistence as a Result, and roll back on failure.
+ *
+ * @since 1.0.0
+ */
+
+import { Atom, Registry, Result } from "@effect-atom/atom-react"
+import { type Collection, createCollection, eq, type NonSingleResult } from "@tanstack/db"
+import * as Option from "effect/Option"
+import { describe, expect, it } from "vitest"
+import { makeCollectionMutations, makeQuery, makeTransactionAtom } from "./atom-tanstack-db"
+import { MutationRejectedError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+// Helper to create a collection whose persistence handlers can be resolved or rejected manually
+function createPersistedCollection(id: string): {
+	collection: Collection<Todo, string, any> & NonSingleResult
+	persist: {
+		resolve: () => void
+		reject: (error: Error) => void
+	}
+} {
+	let pending: { resolve: () => void; reject: (error: Error) => void } | undefined
+
+	const handler = () =>
+		new Promise<void>((resolve, reject) => {
+			pending = { resolve, reject }
+		})
+
+	const config: any = {
+		id,
+		getKey: (todo: Todo) => todo.id,
+		sync: {
+			sync: (params: any) => {
+				params.begin()
+				for (const todo of initialTodos) {
+					params.write({ type: "insert", value: todo })
+				}
+				params.commit()
+				params.markReady()
+			},
+		},
+		startSync: true,
+		onInsert: handler,
+		onUpdate: handler,
+		onDelete: handler,
+	}
+
+	return {
+		collection: createCollection(config) as any,
+		persist: {
+			resolve: () => pending!.resolve(),
+			reject: (error: Error) => pending!.reject(error),
+		},
+	}
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe("makeCollectionMutations", () => {
+	it("should start in the initial state", () => {
+		const registry = Registry.make()
+		const { collection } = createPersistedCollection("todos")
+		const mutations = makeCollectionMutations(collection)
+
+		expect(Result.isInitial(registry.get(mutations.insert))).toBe(true)
+		expect(Result.isInitial(registry.get(mutations.update))).toBe(true)
+		expect(Result.isInitial(registry.get(mutations.delete))).toBe(true)
+	})
+
+	it("should apply insert optimistically and wait for persistence", async () => {
+		const registry = Registry.make()
+		const { collection, persist } = createPersistedCollection("todos")
+		const { insert } = makeCollectionMutations(collection)
+		const unmount = registry.mount(insert)
+
+		registry.set(insert, { id: "3", title: "Task 3", completed: false })
+
+		expect(Result.isWaiting(registry.get(insert))).toBe(true)
+		expect(collection.has("3")).toBe(true)
+
+		persist.resolve()
+		await flush()
+
+		const result = registry.get(insert)
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value.state).toBe("completed")
+		}
+
+		unmount()
+	})
+
+	it("should apply update optimistically", async () => {
+		const registry = Registry.make()
+		const { collection, persist } = createPersistedCollection("todos")
+		const { update } = makeCollectionMutations(collection)
+		const unmount = registry.mount(update)
+
+		registry.set(update, {
+			key: "1",
+			update: (draft) => {
+				draft.completed = true
+			},
+		})
+
+		expect(Result.isWaiting(registry.get(update))).toBe(true)
+		expect(collection.get("1")?.completed).toBe(true)
+
+		persist.resolve()
+		await flush()
+
+		expect(Result.isSuccess(registry.get(update))).toBe(true)
+
+		unmount()
+	})
+
+	it("should roll back and fail when persistence is rejected", async () => {
+		const registry = Registry.make()
+		const { collection, persist } = createPersistedCollection("todos")
+		const { delete: deleteTodo } = makeCollectionMutations(collection)
+		const unmount = registry.mount(deleteTodo)
+
+		registry.set(deleteTodo, "2")
+		expect(collection.has("2")).toBe(false)
+
+		persist.reject(new Error("Server rejected delete"))
+		await flush()
+
+		const result = registry.get(deleteTodo)
+		expect(Result.isFailure(result)).toBe(true)
+		const error = Option.getOrThrow(Result.error(result))
+		expect(error).toBeInstanceOf(MutationRejectedError)
+		expect(error.collectionId).toBe("todos")
+		expect((error.cause as Error).message).toBe("Server rejected delete")
+		expect(collection.has("2")).toBe(true)
+
+		unmount()
+	})
+
+	it("should fail without persisting when the mutation throws", () => {
+		const registry = Registry.make()
+		const { collection } = createPersistedCollection("todos")
+		const { insert } = makeCollectionMutations(collection)
+		const unmount = registry.mount(insert)
+
+		// Duplicate key
+		registry.set(insert, { id: "1", title: "Duplicate", completed: false })
+
+		const result = registry.get(insert)
+		expect(Result.isFailure(result)).toBe(true)
+		expect(collection.get("1")?.title).toBe("Task 1")
+
+		unmount()
+	})
+
+	it("should reset back to initial", async () => {
+		const registry = Registry.make()
+		const { collection, persist } = createPersistedCollection("todos")
+		const { insert } = makeCollectionMutations(collection)
+		const unmount = registry.mount(insert)
+
+		registry.set(insert, { id: "3", title: "Task 3", completed: false })
+		persist.resolve()
+		await flush()
+
+		registry.set(insert, Atom.Reset)
+		expect(Result.isInitial(registry.get(insert))).toBe(true)
+
+		unmount()
+	})
+})
+
+type Project = {
+	id: string
+	name: string
+	openTodos: number
+}
+
+// Helper to create a collection without persistence handlers, mutated through transactions only
+function createProjectCollection(): Collection<Project, string, any> & NonSingleResult {
+	const config: any = {
+		id: "projects",
+		getKey: (project: Project) => project.id,
+		sync: {
+			sync: (params: any) => {
+				params.begin()
+				params.write({ type: "insert", value: { id: "p1", name: "Project 1", openTodos: 1 } })
+				params.commit()
+				params.markReady()
+			},
+		},
+		startSync: true,
+	}
+	return createCollection(config) as any
+}
+
+// Mutation function whose persistence can be resolved or rejected manually
+function createMutationFn() {
+	let pending: { resolve: () => void; reject: (error: Error) => void } | undefined
+	return {
+		mutationFn: () =>
+			new Promise<void>((resolve, reject) => {
+				pending = { resolve, reject }
+			}),
+		resolve: () => pending!.resolve(),
+		reject: (error: Error) => pending!.reject(error),
+	}
+}
+
+describe("makeTransactionAtom", () => {
+	it("should start in the initial state", () => {
+		const registry = Registry.make()
+		const { transaction } = makeTransactionAtom(createMutationFn().mutationFn)
+
+		expect(Result.isInitial(registry.get(transaction))).toBe(true)
+	})
+
+	it("should batch repeated mutations across collections until commit", async () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const projects = createProjectCollection()
+		const persistence = createMutationFn()
+		const { transaction, mutate, commit } = makeTransactionAtom(persistence.mutationFn)
+
+		const pendingAtom = makeQuery((q) => q.from({ todos }).where(({ todos }) => eq(todos.completed, false)))
+		const unsubscribe = registry.subscribe(pendingAtom, () => {})
+		registry.get(pendingAtom)
+
+		registry.set(mutate, () => {
+			todos.update("1", (draft) => {
+				draft.completed = true
+			})
+		})
+		registry.set(mutate, () => {
+			projects.update("p1", (draft) => {
+				draft.openTodos = 0
+			})
+		})
+
+		const pending = registry.get(transaction)
+		expect(Result.isSuccess(pending) && !pending.waiting).toBe(true)
+		const { transaction: tx, mutationCount } = Option.getOrThrow(Result.value(pending))
+		expect(tx.state).toBe("pending")
+		expect(tx.mutations).toHaveLength(2)
+		expect(mutationCount).toBe(2)
+
+		// Query atoms see the optimistic state before the transaction is committed
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(pendingAtom)))).toEqual([])
+		expect(projects.get("p1")?.openTodos).toBe(0)
+
+		registry.set(commit, undefined)
+		expect(registry.get(transaction).waiting).toBe(true)
+		expect(tx.state).toBe("persisting")
+
+		persistence.resolve()
+		await flush()
+
+		const completed = registry.get(transaction)
+		expect(Result.isSuccess(completed) && !completed.waiting).toBe(true)
+		expect(tx.state).toBe("completed")
+
+		unsubscribe()
+	})
+
+	it("should notify on every mutation of the pending transaction", () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const { transaction, mutate } = makeTransactionAtom(createMutationFn().mutationFn)
+
+		const counts: Array<number> = []
+		const unsubscribe = registry.subscribe(transaction, (result) => {
+			Option.map(Result.value(result), ({ mutationCount }) => counts.push(mutationCount))
+		})
+
+		for (let i = 3; i < 6; i++) {
+			registry.set(mutate, () => {
+				todos.insert({ id: String(i), title: `Task ${i}`, completed: false })
+			})
+		}
+		// Updating a row already in the transaction merges into its mutation, but is still a new emission
+		registry.set(mutate, () => {
+			todos.update("3", (draft) => {
+				draft.completed = true
+			})
+		})
+
+		expect(counts).toEqual([1, 2, 3, 3])
+
+		unsubscribe()
+	})
+
+	it("should fail and roll back when persistence is rejected", async () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const persistence = createMutationFn()
+		const { transaction, mutate, commit } = makeTransactionAtom(persistence.mutationFn)
+
+		const todosAtom = makeQuery((q) => q.from({ todos }))
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+		registry.get(todosAtom)
+
+		registry.set(mutate, () => {
+			todos.delete("2")
+		})
+		await flush()
+		expect(Option.getOrThrow(Result.value(registry.get(todosAtom)))).toHaveLength(1)
+
+		registry.set(commit, undefined)
+		persistence.reject(new Error("Server rejected transaction"))
+		await flush()
+
+		const error = Option.getOrThrow(Result.error(registry.get(transaction)))
+		expect(error).toBeInstanceOf(MutationRejectedError)
+		expect(error.collectionId).toBe("todos")
+		expect((error.cause as Error).message).toBe("Server rejected transaction")
+		expect(Option.getOrThrow(Result.value(registry.get(todosAtom)))).toHaveLength(2)
+
+		unsubscribe()
+	})
+
+	it("should discard the transaction on rollback", async () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const persistence = createMutationFn()
+		const { transaction, mutate, rollback } = makeTransactionAtom(persistence.mutationFn)
+
+		registry.set(mutate, () => {
+			todos.insert({ id: "3", title: "Task 3", completed: false })
+		})
+		const tx = Option.getOrThrow(Result.value(registry.get(transaction))).transaction
+		expect(todos.has("3")).toBe(true)
+
+		registry.set(rollback, undefined)
+
+		expect(tx.state).toBe("failed")
+		expect(todos.has("3")).toBe(false)
+		expect(Result.isInitial(registry.get(transaction))).toBe(true)
+
+		// The next mutation starts a new transaction
+		registry.set(mutate, () => {
+			todos.insert({ id: "4", title: "Task 4", completed: false })
+		})
+		expect(Option.getOrThrow(Result.value(registry.get(transaction))).transaction).not.toBe(tx)
+	})
+
+	it("should roll back when a mutation throws", () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const { transaction, mutate } = makeTransactionAtom(createMutationFn().mutationFn)
+
+		registry.set(mutate, () => {
+			todos.insert({ id: "3", title: "Task 3", completed: false })
+			// Duplicate key
+			todos.insert({ id: "1", title: "Duplicate", completed: false })
+		})
+
+		expect(Result.isFailure(registry.get(transaction))).toBe(true)
+		expect(todos.has("3")).toBe(false)
+		expect(todos.get("1")?.title).toBe("Task 1")
+	})
+
+	it("should roll back mutations of earlier callbacks when a later one throws", () => {
+		const registry = Registry.make()
+		const { collection: todos } = createPersistedCollection("todos")
+		const { transaction, mutate } = makeTransactionAtom(createMutationFn().mutationFn)
+
+		registry.set(mutate, () => {
+			todos.insert({ id: "3", title: "Task 3", completed: false })
+		})
+		registry.set(mutate, () => {
+			throw new Error("Invalid move")
+		})
+
+		const error = Option.getOrThrow(Result.error(registry.get(transaction)))
+		expect(error.collectionId).toBe("todos")
+		expect(todos.has("3")).toBe(false)
+	})
+
+	it("should not name a collection when the first callback throws before mutating", () => {
+		const registry = Registry.make()
+		const { transaction, mutate } = makeTransactionAtom(createMutationFn().mutationFn)
+
+		registry.set(mutate, () => {
+			throw new Error("Invalid move")
+		})
+
+		const error = Option.getOrThrow(Result.error(registry.get(transaction)))
+		expect(error.collectionId).toBeUndefined()
+	})
+})
@@ -0,0 +1,578 @@
+/**
+ * Incremental Update Tests for TanStack DB Atom
+ *
+ * These tests verify that atoms apply change batches to their maintained rows
+ * instead of re-reading the whole collection, keeping unchanged rows and arrays
+ * referentially stable, that identical live queries share one collection, and that
+ * selector atoms only notify when their selected slice changes.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { type Collection, createCollection, eq, gt, type NonSingleResult } from "@tanstack/db"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { makeCollectionAtom, makeQuery, makeQuerySelector } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+	priority: number
+}
+
+const makeTodos = (count: number): Array<Todo> =>
+	Array.from({ length: count }, (_, i) => ({
+		id: String(i),
+		title: `Task ${i}`,
+		completed: false,
+		priority: i,
+	}))
+
+const getSuccess = <A, E>(result: Result.Result<A, E>): A => {
+	if (!Result.isSuccess(result)) {
+		throw new Error(`Expected success, got ${result._tag}`)
+	}
+	return result.value
+}
+
+describe("Incremental change application", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("should update a single row of a 50k row collection without re-reading it", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(50_000),
+		})
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+		await vi.runAllTimersAsync()
+
+		const before = getSuccess(registry.get(todosAtom))
+		expect(before).toHaveLength(50_000)
+
+		const entries = vi.spyOn(collection, "entries")
+
+		// 100 single-row batches: the work done per batch must not depend on the collection size
+		for (let i = 0; i < 100; i++) {
+			const id = i * 500
+			apply({ type: "update", value: { id: String(id), title: "Updated", completed: true, priority: id } })
+		}
+		await vi.runAllTimersAsync()
+
+		expect(entries).not.toHaveBeenCalled()
+
+		const after = getSuccess(registry.get(todosAtom))
+		expect(after).not.toBe(before)
+		expect(after).toHaveLength(50_000)
+
+		let changedRows = 0
+		for (let i = 0; i < after.length; i++) {
+			if (after[i] !== before[i]) changedRows++
+		}
+		expect(changedRows).toBe(100)
+		expect(after.find((todo) => todo.id === "500")?.title).toBe("Updated")
+		expect(after.find((todo) => todo.id === "501")).toBe(before.find((todo) => todo.id === "501"))
+
+		unsubscribe()
+	})
+
+	it("should do work logarithmic in the collection size per changed row", () => {
+		// Comparisons made by one batch of each kind, for a sorted collection of `size` rows
+		const comparisons = (size: number) => {
+			let calls = 0
+			let params: any
+			const collection = createCollection<Todo>({
+				id: `sorted-todos-${size}`,
+				getKey: (todo: Todo) => todo.id,
+				compare: (a: Todo, b: Todo) => {
+					calls++
+					return a.priority - b.priority
+				},
+				sync: {
+					sync: (syncParams: any) => {
+						params = syncParams
+						params.begin()
+						for (const todo of makeTodos(size)) {
+							params.write({ type: "insert", value: todo })
+						}
+						params.commit()
+						params.markReady()
+					},
+				},
+				startSync: true,
+			} as any)
+
+			const registry = Registry.make()
+			const todosAtom = makeCollectionAtom(collection as Collection<Todo, string | number, any> & NonSingleResult)
+			const unsubscribe = registry.subscribe(todosAtom, () => {})
+			registry.get(todosAtom)
+			const entries = vi.spyOn(collection, "entries")
+
+			const count = (change: object) => {
+				calls = 0
+				params.begin()
+				params.write(change)
+				params.commit()
+				expect(getSuccess(registry.get(todosAtom))).toHaveLength(collection.size)
+				return calls
+			}
+			const counts = [
+				count({ type: "update", value: { id: "10", title: "Renamed", completed: false, priority: 10 } }),
+				count({ type: "update", value: { id: "10", title: "Moved", completed: false, priority: size + 1 } }),
+				count({ type: "insert", value: { id: "new", title: "New", completed: false, priority: 7.5 } }),
+				count({ type: "delete", key: "new" }),
+				count({ type: "delete", key: "20" }),
+			]
+			// Deletes of rows the subscription never received are applied too, instead of reading the rows again
+			expect(entries).not.toHaveBeenCalled()
+			expect(getSuccess(registry.get(todosAtom))).toEqual(Array.from(collection.values()))
+
+			unsubscribe()
+			return counts
+		}
+
+		const small = comparisons(500)
+		const large = comparisons(50_000)
+
+		// 100 times the rows: a linear search or rebuild would make ~100 times the comparisons
+		for (let i = 0; i < small.length; i++) {
+			expect(large[i]).toBeLessThan(small[i]! * 3)
+		}
+	})
+
+	it("should keep unchanged row references across inserts and deletes", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(5),
+		})
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+		await vi.runAllTimersAsync()
+
+		const before = getSuccess(registry.get(todosAtom))
+
+		apply(
+			{ type: "delete", value: before[1]! },
+			{ type: "insert", value: { id: "5", title: "Task 5", completed: false, priority: 5 } },
+		)
+		await vi.runAllTimersAsync()
+
+		const after = getSuccess(registry.get(todosAtom))
+		expect(after.map((todo) => todo.id)).toEqual(["0", "2", "3", "4", "5"])
+		expect(after[0]).toBe(before[0])
+		expect(after[1]).toBe(before[2])
+		expect(before.map((todo) => todo.id)).toEqual(["0", "1", "2", "3", "4"])
+		expect(after).toEqual(Array.from(collection.values()))
+
+		unsubscribe()
+	})
+
+	it("should not notify when a change does not affect the query result", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const completedAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, true)),
+		)
+
+		const updates: Array<unknown> = []
+		const unsubscribe = registry.subscribe(completedAtom, (result) => updates.push(result))
+
+		await vi.runAllTimersAsync()
+
+		const before = getSuccess(registry.get(completedAtom))
+		const notifications = updates.length
+
+		apply({ type: "update", value: { id: "3", title: "Renamed", completed: false, priority: 3 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates.length).toBe(notifications)
+		expect(getSuccess(registry.get(completedAtom))).toBe(before)
+
+		unsubscribe()
+	})
+
+	it("should keep orderBy ordering when rows move", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(20),
+		})
+
+		const byPriorityAtom = makeQuery((q) =>
+			q.from({ todos: collection }).orderBy(({ todos }) => todos.priority, "desc"),
+		)
+		const unsubscribe = registry.subscribe(byPriorityAtom, () => {})
+
+		await vi.runAllTimersAsync()
+
+		const before = getSuccess(registry.get(byPriorityAtom))
+		expect(before[0]?.id).toBe("19")
+
+		apply(
+			{ type: "update", value: { id: "2", title: "Task 2", completed: false, priority: 100 } },
+			{ type: "update", value: { id: "10", title: "Renamed", completed: false, priority: 10 } },
+			{ type: "insert", value: { id: "20", title: "Task 20", completed: false, priority: 7.5 } },
+			{ type: "delete", value: { id: "19", title: "Task 19", completed: false, priority: 19 } },
+		)
+		await vi.runAllTimersAsync()
+
+		const after = getSuccess(registry.get(byPriorityAtom))
+		const priorities = after.map((todo) => todo.priority)
+		expect(priorities).toEqual([...priorities].sort((a, b) => b - a))
+		expect(after[0]?.id).toBe("2")
+		expect(after).toHaveLength(20)
+		expect(after.find((todo) => todo.id === "10")?.title).toBe("Renamed")
+		expect(after.find((todo) => todo.id === "5")).toBe(before.find((todo) => todo.id === "5"))
+
+		unsubscribe()
+	})
+
+	it("should keep the collection's order of optimistic rows", async () => {
+		const registry = Registry.make()
+		const collection = createCollection<Todo, string>({
+			id: "optimistic-todos",
+			getKey: (todo) => todo.id,
+			startSync: true,
+			sync: {
+				sync: ({ begin, write, commit, markReady }) => {
+					begin()
+					for (const todo of makeTodos(4).filter((todo) => todo.id === "1" || todo.id === "3")) {
+						write({ type: "insert", value: todo })
+					}
+					commit()
+					markReady()
+				},
+			},
+			// Persistence never settles, so the mutations stay optimistic
+			onInsert: () => new Promise(() => {}),
+			onUpdate: () => new Promise(() => {}),
+		})
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+		await vi.runAllTimersAsync()
+		expect(getSuccess(registry.get(todosAtom)).map((todo) => todo.id)).toEqual(["1", "3"])
+
+		// Optimistic inserts follow the synced rows, and an optimistic update keeps its row's position
+		collection.insert({ id: "2", title: "Task 2", completed: false, priority: 2 })
+		collection.insert({ id: "0", title: "Task 0", completed: false, priority: 0 })
+		collection.update("1", (draft) => {
+			draft.title = "Renamed"
+		})
+		await vi.runAllTimersAsync()
+
+		const todos = getSuccess(registry.get(todosAtom))
+		expect(todos.map((todo) => todo.id)).toEqual(["1", "3", "2", "0"])
+		expect(todos).toEqual(collection.toArray)
+
+		unsubscribe()
+	})
+})
+
+describe("Live query sharing", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("should share one live query collection between identical queries", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const firstAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, true)),
+		)
+		const secondAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, true)),
+		)
+
+		const unsubscribe1 = registry.subscribe(firstAtom, () => {})
+		const unsubscribe2 = registry.subscribe(secondAtom, () => {})
+		registry.get(firstAtom)
+		registry.get(secondAtom)
+
+		expect(collection.subscriberCount).toBe(1)
+
+		apply({ type: "update", value: { id: "4", title: "Task 4", completed: true, priority: 4 } })
+		await vi.runAllTimersAsync()
+
+		const first = getSuccess(registry.get(firstAtom))
+		expect(first.map((todo) => todo.id)).toEqual(["4"])
+		expect(getSuccess(registry.get(secondAtom))).toEqual(first)
+
+		unsubscribe1()
+		expect(collection.subscriberCount).toBe(1)
+
+		unsubscribe2()
+		await vi.runAllTimersAsync()
+		expect(collection.subscriberCount).toBe(0)
+	})
+
+	it("should not share queries that differ", () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const completedAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, true)),
+		)
+		const pendingAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, false)),
+		)
+
+		const unsubscribe1 = registry.subscribe(completedAtom, () => {})
+		const unsubscribe2 = registry.subscribe(pendingAtom, () => {})
+		registry.get(completedAtom)
+		registry.get(pendingAtom)
+
+		expect(collection.subscriberCount).toBe(2)
+		expect(getSuccess(registry.get(completedAtom))).toHaveLength(0)
+		expect(getSuccess(registry.get(pendingAtom))).toHaveLength(10)
+
+		unsubscribe1()
+		unsubscribe2()
+	})
+
+	it("should not share queries comparing different Sets", () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		// Sets have no own properties, so they are told apart by identity rather than serialized as {}
+		const firstAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.title, new Set(["Task 1"]) as unknown as string)),
+		)
+		const secondAtom = makeQuery((q) =>
+			q.from({ todos: collection }).where(({ todos }) => eq(todos.title, new Set(["Task 2"]) as unknown as string)),
+		)
+
+		const unsubscribe1 = registry.subscribe(firstAtom, () => {})
+		const unsubscribe2 = registry.subscribe(secondAtom, () => {})
+		registry.get(firstAtom)
+		registry.get(secondAtom)
+
+		expect(collection.subscriberCount).toBe(2)
+
+		unsubscribe1()
+		unsubscribe2()
+	})
+
+	it("should not share queries comparing different non-finite numbers", () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const noneAtom = makeQuery((q) => q.from({ todos: collection }).where(({ todos }) => gt(todos.priority, Infinity)))
+		const allAtom = makeQuery((q) => q.from({ todos: collection }).where(({ todos }) => gt(todos.priority, -Infinity)))
+
+		const unsubscribe1 = registry.subscribe(noneAtom, () => {})
+		const unsubscribe2 = registry.subscribe(allAtom, () => {})
+
+		expect(getSuccess(registry.get(noneAtom))).toHaveLength(0)
+		expect(getSuccess(registry.get(allAtom))).toHaveLength(10)
+		expect(collection.subscriberCount).toBe(2)
+
+		unsubscribe1()
+		unsubscribe2()
+	})
+
+	it("should keep the shared collection for gcTime after the last subscriber leaves", async () => {
+		const registry = Registry.make()
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const todosAtom = makeQuery((q) => q.from({ todos: collection }), { gcTime: 1000 })
+
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+		const before = getSuccess(registry.get(todosAtom))
+		unsubscribe()
+
+		await vi.advanceTimersByTimeAsync(500)
+		expect(collection.subscriberCount).toBe(1)
+
+		// Remounting within gcTime reuses the same live query collection
+		const remount = registry.subscribe(todosAtom, () => {})
+		expect(getSuccess(registry.get(todosAtom))).toEqual(before)
+		expect(collection.subscriberCount).toBe(1)
+		remount()
+
+		await vi.advanceTimersByTimeAsync(999)
+		expect(collection.subscriberCount).toBe(1)
+
+		await vi.advanceTimersByTimeAsync(1)
+		expect(collection.subscriberCount).toBe(0)
+	})
+})
+
+describe("makeQuerySelector", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("should not notify when an unrelated row update keeps the selected value", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(10),
+		})
+
+		const countAtom = makeQuerySelector(
+			(q) => q.from({ todos: collection }),
+			(todos) => todos.length,
+		)
+
+		const updates: Array<Result.Result<number, unknown>> = []
+		const unsubscribe = registry.subscribe(countAtom, (result) => updates.push(result))
+		expect(getSuccess(registry.get(countAtom))).toBe(10)
+		updates.length = 0
+
+		apply({ type: "update", value: { id: "3", title: "Renamed", completed: true, priority: 3 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates).toHaveLength(0)
+
+		apply({ type: "insert", value: { id: "10", title: "Task 10", completed: false, priority: 10 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates.map(getSuccess)).toEqual([11])
+
+		unsubscribe()
+	})
+
+	it("should select from an existing query atom", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(3),
+		})
+
+		const todosAtom = makeQuery((q) => q.from({ todos: collection }))
+		const allDoneAtom = makeQuerySelector(todosAtom, (todos) => todos.every((todo) => todo.completed))
+
+		const updates: Array<Result.Result<boolean, unknown>> = []
+		const unsubscribe = registry.subscribe(allDoneAtom, (result) => updates.push(result))
+		expect(getSuccess(registry.get(allDoneAtom))).toBe(false)
+		updates.length = 0
+
+		apply({ type: "update", value: { id: "0", title: "Task 0", completed: true, priority: 0 } })
+		apply({ type: "update", value: { id: "1", title: "Task 1", completed: true, priority: 1 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates).toHaveLength(0)
+
+		apply({ type: "update", value: { id: "2", title: "Task 2", completed: true, priority: 2 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates.map(getSuccess)).toEqual([true])
+
+		unsubscribe()
+	})
+
+	it("should compare selected arrays structurally by default", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(5),
+		})
+
+		const idsAtom = makeQuerySelector(
+			(q) => q.from({ todos: collection }),
+			(todos) => todos.map((todo) => todo.id),
+		)
+
+		const updates: Array<Result.Result<Array<string>, unknown>> = []
+		const unsubscribe = registry.subscribe(idsAtom, (result) => updates.push(result))
+		const before = getSuccess(registry.get(idsAtom))
+		updates.length = 0
+
+		apply({ type: "update", value: { id: "2", title: "Renamed", completed: false, priority: 2 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates).toHaveLength(0)
+		expect(getSuccess(registry.get(idsAtom))).toBe(before)
+
+		unsubscribe()
+	})
+
+	it("should use a custom equality", async () => {
+		const registry = Registry.make()
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: makeTodos(5),
+		})
+
+		// Only notify when the top priority todo changes
+		const topAtom = makeQuerySelector(
+			(q) => q.from({ todos: collection }).orderBy(({ todos }) => todos.priority, "desc"),
+			(todos) => todos[0],
+			(a, b) => a?.id === b?.id,
+		)
+
+		const updates: Array<Result.Result<Todo | undefined, unknown>> = []
+		const unsubscribe = registry.subscribe(topAtom, (result) => updates.push(result))
+		expect(getSuccess(registry.get(topAtom))?.id).toBe("4")
+		updates.length = 0
+
+		apply({ type: "update", value: { id: "4", title: "Renamed", completed: true, priority: 4 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates).toHaveLength(0)
+
+		apply({ type: "update", value: { id: "1", title: "Task 1", completed: false, priority: 10 } })
+		await vi.runAllTimersAsync()
+
+		expect(updates.map((result) => getSuccess(result)?.id)).toEqual(["1"])
+
+		unsubscribe()
+	})
+})
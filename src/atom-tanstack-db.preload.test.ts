@@ -0,0 +1,153 @@
+/**
+ * Preload Tests for TanStack DB Atom
+ *
+ * These tests verify that awaitReady and preloadQuery start sync, resolve once the
+ * collection is ready, fail with the collection's typed error, release what they
+ * mounted when interrupted, and keep preloaded atoms warm for the next subscriber.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { createCollection, eq } from "@tanstack/db"
+import * as Cause from "effect/Cause"
+import * as Effect from "effect/Effect"
+import * as Exit from "effect/Exit"
+import * as Option from "effect/Option"
+import * as Schedule from "effect/Schedule"
+import { describe, expect, it } from "vitest"
+import { awaitReady, makeQuery, preloadQuery } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+import { CollectionCleanedUpError, CollectionLoadError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const failureOf = <A, E>(exit: Exit.Exit<A, E>) =>
+	Option.getOrThrow(Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none())
+
+describe("awaitReady", () => {
+	it("should resolve with the rows once the collection is ready", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const ready = Effect.runPromise(awaitReady(todos.collection))
+
+		todos.apply(...initialTodos.map((value) => ({ type: "insert" as const, value })))
+		todos.markReady()
+
+		expect(await ready).toEqual(initialTodos)
+	})
+
+	it("should start the sync of a lazy collection", async () => {
+		const collection = createCollection<Todo, string>({
+			id: "todos",
+			getKey: (todo) => todo.id,
+			sync: {
+				sync: ({ begin, write, commit, markReady }) => {
+					begin()
+					write({ type: "insert", value: initialTodos[0]! })
+					commit()
+					markReady()
+				},
+			},
+		})
+		expect(collection.status).toBe("idle")
+
+		expect(await Effect.runPromise(awaitReady(collection))).toEqual([initialTodos[0]])
+	})
+
+	it("should fail with the collection's error", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const ready = Effect.runPromiseExit(awaitReady(todos.collection))
+
+		todos.fail(new Error("Connection lost"))
+
+		const error = failureOf(await ready)
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		expect((error.cause as Error).message).toBe("Connection lost")
+	})
+
+	it("should fail once the collection is cleaned up", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const ready = Effect.runPromiseExit(awaitReady(todos.collection))
+
+		await todos.collection.cleanup()
+
+		expect(failureOf(await ready)).toBeInstanceOf(CollectionCleanedUpError)
+	})
+})
+
+describe("preloadQuery", () => {
+	it("should resolve with the query data and keep the atom warm for the next subscriber", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const openTodosAtom = makeQuery((q) =>
+			q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.completed, false)),
+		)
+		const registry = Registry.make()
+		const preloaded = Effect.runPromise(preloadQuery(registry, openTodosAtom, { gcTime: 10 }))
+
+		todos.apply(...initialTodos.map((value) => ({ type: "insert" as const, value })))
+		todos.markReady()
+		expect(await preloaded).toEqual([initialTodos[0]])
+
+		// The component mounting the atom next renders the loaded rows
+		await flush()
+		const unsubscribe = registry.subscribe(openTodosAtom, () => {})
+		expect(Result.isSuccess(registry.get(openTodosAtom))).toBe(true)
+
+		await new Promise((resolve) => setTimeout(resolve, 20))
+		expect(todos.collection.subscriberCount).toBe(1)
+
+		unsubscribe()
+		await flush()
+		expect(todos.collection.subscriberCount).toBe(0)
+	})
+
+	it("should fail with the atom's error", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const todosAtom = makeQuery((q) => q.from({ todos: todos.collection }))
+		const preloaded = Effect.runPromiseExit(preloadQuery(Registry.make(), todosAtom))
+
+		todos.fail(new Error("Connection lost"))
+
+		expect(failureOf(await preloaded)).toBeInstanceOf(CollectionLoadError)
+		await flush()
+		expect(todos.collection.subscriberCount).toBe(0)
+	})
+
+	it("should wait for an atom retrying its failure", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const todosAtom = makeQuery((q) => q.from({ todos: todos.collection }), { retry: Schedule.spaced("1 millis") })
+		const preloaded = Effect.runPromise(preloadQuery(Registry.make(), todosAtom))
+
+		todos.fail(new Error("Connection lost"))
+		await flush()
+		todos.apply(...initialTodos.map((value) => ({ type: "insert" as const, value })))
+		todos.markReady()
+
+		expect(await preloaded).toEqual(initialTodos)
+	})
+
+	it("should unmount the atom when it times out", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const todosAtom = makeQuery((q) => q.from({ todos: todos.collection }))
+
+		const exit = await Effect.runPromiseExit(
+			preloadQuery(Registry.make(), todosAtom).pipe(Effect.timeout("5 millis")),
+		)
+
+		expect(failureOf(exit)._tag).toBe("TimeoutException")
+		await flush()
+		expect(todos.collection.subscriberCount).toBe(0)
+	})
+})
@@ -11,8 +11,16 @@
 
 import { Atom, Registry, Result } from "@effect-atom/atom-react"
 import { type Collection, createCollection, eq, type NonSingleResult } from "@tanstack/db"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
-import { makeCollectionAtom, makeQuery, makeQueryConditional, makeQueryUnsafe } from "./atom-tanstack-db"
+import {
+	makeCollectionAtom,
+	makeQuery,
+	makeQueryConditional,
+	makeQueryUnsafe,
+	makeReactiveQuery,
+} from "./atom-tanstack-db"
 
 // Test data types
 type Todo = {
@@ -66,6 +74,52 @@ function createControlledCollection<T extends object>(
 	return { collection: createCollection<T>(config) }
 }
 
+// Helper to create an on-demand collection whose subset loads resolve manually
+// Live queries with orderBy and limit stay loading until their subset is loaded
+function createOnDemandCollection(
+	id: string,
+	data: Array<Todo>,
+): {
+	collection: Collection<Todo, string | number, any> & NonSingleResult
+	resolveLoad: () => void
+} {
+	let pending: Array<() => void> = []
+
+	const config: any = {
+		id,
+		getKey: (todo: Todo) => todo.id,
+		syncMode: "on-demand",
+		sync: {
+			sync: (params: any) => {
+				params.markReady()
+				return {
+					loadSubset: () =>
+						new Promise<void>((resolve) => {
+							pending.push(() => {
+								params.begin()
+								for (const todo of data) {
+									params.write({ type: "insert", value: todo })
+								}
+								params.commit()
+								resolve()
+							})
+						}),
+				}
+			},
+		},
+		startSync: true,
+	}
+
+	return {
+		collection: createCollection<Todo>(config),
+		resolveLoad: () => {
+			const loads = pending
+			pending = []
+			for (const load of loads) load()
+		},
+	}
+}
+
 describe("Result Pattern Matching", () => {
 	beforeEach(() => {
 		vi.useFakeTimers()
@@ -321,16 +375,17 @@ describe("Result Pattern Matching", () => {
 	})
 
 	describe("makeQueryConditional with Result operations", () => {
-		it("should return undefined when query is null", () => {
+		it("should be Initial without waiting when query is null", () => {
 			const registry = Registry.make()
 
 			const todosAtom = makeQueryConditional(() => null)
 
 			const result = registry.get(todosAtom)
-			expect(result).toBeUndefined()
+			expect(Result.isInitial(result)).toBe(true)
+			expect(result.waiting).toBe(false)
 		})
 
-		it("should return Result when query is defined", async () => {
+		it("should return a Result when query is defined", async () => {
 			const registry = Registry.make()
 			const { collection } = createControlledCollection("todos", initialTodos, (todo) => todo.id)
 
@@ -339,8 +394,123 @@ describe("Result Pattern Matching", () => {
 			await vi.runAllTimersAsync()
 
 			const result = registry.get(todosAtom)
-			expect(result).toBeDefined()
-			expect(Result.isSuccess(result!)).toBe(true)
+			expect(Result.isSuccess(result)).toBe(true)
+		})
+	})
+
+	describe("suspendOnWaiting", () => {
+		it("should keep Atom.result() suspended until the query is ready", async () => {
+			const registry = Registry.make()
+
+			let markReady: () => void
+
+			const config: any = {
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				sync: {
+					sync: (params: any) => {
+						markReady = () => {
+							params.begin()
+							for (const todo of initialTodos) {
+								params.write({ type: "insert", value: todo })
+							}
+							params.commit()
+							params.markReady()
+						}
+					},
+				},
+				startSync: true,
+			}
+
+			const collection = createCollection(config)
+			const todosAtom = makeQuery((q) => q.from({ todos: collection }), { suspendOnWaiting: true })
+			const countAtom = Atom.make((get) => Effect.map(get.result(todosAtom), (todos) => todos.length))
+
+			registry.mount(countAtom)
+			await vi.advanceTimersByTimeAsync(10)
+
+			expect(Result.isInitial(registry.get(countAtom))).toBe(true)
+
+			markReady!()
+			await vi.advanceTimersByTimeAsync(10)
+
+			const result = registry.get(countAtom)
+			expect(Result.isSuccess(result)).toBe(true)
+			if (Result.isSuccess(result)) {
+				expect(result.value).toBe(3)
+			}
+		})
+
+		it("should resolve Registry.getResult once the query is ready", async () => {
+			const registry = Registry.make()
+			const { collection } = createControlledCollection("todos", initialTodos, (todo) => todo.id)
+
+			const todosAtom = makeQuery((q) => q.from({ todos: collection }), { suspendOnWaiting: true })
+
+			const promise = Effect.runPromise(Registry.getResult(registry, todosAtom, { suspendOnWaiting: true }))
+			await vi.runAllTimersAsync()
+
+			await expect(promise).resolves.toHaveLength(3)
+		})
+
+		it("should report a previous success kept while reloading as Initial", async () => {
+			const registry = Registry.make()
+			const { collection, resolveLoad } = createOnDemandCollection("todos", initialTodos)
+
+			const todosAtom = makeQuery(
+				(q) =>
+					q
+						.from({ todos: collection })
+						.orderBy(({ todos }) => todos.id)
+						.limit(2),
+				{ keepPreviousData: true, suspendOnWaiting: true },
+			)
+			const countAtom = Atom.make((get) => Effect.map(get.result(todosAtom), (todos) => todos.length))
+			registry.mount(countAtom)
+
+			resolveLoad()
+			await vi.runAllTimersAsync()
+			expect(registry.get(countAtom)).toMatchObject({ _tag: "Success", value: 2, waiting: false })
+
+			// Without the option, the reloading query emits its previous success as waiting
+			registry.refresh(todosAtom)
+
+			const reloading = registry.get(todosAtom)
+			expect(Result.isInitial(reloading)).toBe(true)
+			expect(reloading.waiting).toBe(true)
+
+			resolveLoad()
+			await vi.runAllTimersAsync()
+			expect(registry.get(countAtom)).toMatchObject({ _tag: "Success", value: 2, waiting: false })
+		})
+
+		it("should suspend a conditional query until it is enabled and ready", async () => {
+			const registry = Registry.make()
+			const { collection, resolveLoad } = createOnDemandCollection("todos", initialTodos)
+
+			const enabledAtom = Atom.make(false)
+			const conditionalAtom = makeQueryConditional(
+				(q, get) =>
+					get(enabledAtom)
+						? q
+								.from({ todos: collection })
+								.orderBy(({ todos }) => todos.id)
+								.limit(2)
+						: null,
+				{ suspendOnWaiting: true },
+			)
+			const countAtom = Atom.make((get) => Effect.map(get.result(conditionalAtom), (todos) => todos.length))
+			registry.mount(countAtom)
+
+			expect(Result.isInitial(registry.get(countAtom))).toBe(true)
+
+			registry.set(enabledAtom, true)
+			await vi.advanceTimersByTimeAsync(10)
+			expect(Result.isInitial(registry.get(countAtom))).toBe(true)
+
+			resolveLoad()
+			await vi.advanceTimersByTimeAsync(10)
+			expect(registry.get(countAtom)).toMatchObject({ _tag: "Success", value: 2, waiting: false })
 		})
 	})
 
@@ -404,6 +574,133 @@ describe("Result Pattern Matching", () => {
 		})
 	})
 
+	describe("keepPreviousData", () => {
+		it("should keep the previous success as waiting while a rebuilt query loads", async () => {
+			const registry = Registry.make()
+			const { collection, resolveLoad } = createOnDemandCollection("todos", initialTodos)
+
+			const todosAtom = makeQuery(
+				(q) =>
+					q
+						.from({ todos: collection })
+						.orderBy(({ todos }) => todos.id)
+						.limit(2),
+				{ keepPreviousData: true },
+			)
+
+			const states: Array<string> = []
+			const unsubscribe = registry.subscribe(todosAtom, (result) => {
+				states.push(`${result._tag}${result.waiting ? ":waiting" : ""}`)
+			})
+
+			expect(Result.isInitial(registry.get(todosAtom))).toBe(true)
+
+			resolveLoad()
+			await vi.runAllTimersAsync()
+
+			const loaded = registry.get(todosAtom)
+			expect(Result.isSuccess(loaded)).toBe(true)
+			states.length = 0
+
+			// Rebuilding creates a new live query that loads its subset again
+			registry.refresh(todosAtom)
+
+			const reloading = registry.get(todosAtom)
+			expect(Result.isSuccess(reloading)).toBe(true)
+			expect(reloading.waiting).toBe(true)
+			if (Result.isSuccess(reloading) && Result.isSuccess(loaded)) {
+				expect(reloading.value).toBe(loaded.value)
+			}
+
+			resolveLoad()
+			await vi.runAllTimersAsync()
+
+			const reloaded = registry.get(todosAtom)
+			expect(Result.isSuccess(reloaded)).toBe(true)
+			expect(reloaded.waiting).toBe(false)
+			expect(states).toEqual(["Success:waiting", "Success"])
+
+			unsubscribe()
+		})
+
+		it("should fall back to Initial without the option", async () => {
+			const registry = Registry.make()
+			const { collection, resolveLoad } = createOnDemandCollection("todos", initialTodos)
+
+			const todosAtom = makeQuery((q) =>
+				q
+					.from({ todos: collection })
+					.orderBy(({ todos }) => todos.id)
+					.limit(2),
+			)
+			const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+			registry.get(todosAtom)
+			resolveLoad()
+			await vi.runAllTimersAsync()
+			expect(Result.isSuccess(registry.get(todosAtom))).toBe(true)
+
+			registry.refresh(todosAtom)
+
+			const reloading = registry.get(todosAtom)
+			expect(Result.isInitial(reloading)).toBe(true)
+			expect(reloading.waiting).toBe(true)
+
+			unsubscribe()
+		})
+
+		it("should not keep a failure as previous data", async () => {
+			const registry = Registry.make()
+			const { collection, resolveLoad } = createOnDemandCollection("todos", initialTodos)
+
+			const sourceAtom = Atom.make<Collection<Todo, string | number, any> | undefined>(undefined)
+			const todosAtom = makeReactiveQuery((q, get) =>
+				q
+					.from({ todos: get(sourceAtom)! })
+					.orderBy(({ todos }) => todos.id)
+					.limit(2),
+			)
+			const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+			// Building the query without a source fails
+			expect(Result.isFailure(registry.get(todosAtom))).toBe(true)
+
+			registry.set(sourceAtom, collection)
+			expect(Result.isInitial(registry.get(todosAtom))).toBe(true)
+
+			resolveLoad()
+			await vi.runAllTimersAsync()
+			expect(Result.isSuccess(registry.get(todosAtom))).toBe(true)
+
+			unsubscribe()
+		})
+
+		it("should be disabled for reactive queries with keepPreviousData: false", async () => {
+			const registry = Registry.make()
+			const { collection: ready } = createControlledCollection("todos", initialTodos, (todo) => todo.id)
+			const { collection: loading } = createOnDemandCollection("archived-todos", initialTodos)
+
+			const sourceAtom = Atom.make<Collection<Todo, string | number, any>>(ready)
+			const todosAtom = makeReactiveQuery(
+				(q, get) =>
+					q
+						.from({ todos: get(sourceAtom) })
+						.orderBy(({ todos }) => todos.id)
+						.limit(2),
+				{ keepPreviousData: false },
+			)
+			const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+			await vi.runAllTimersAsync()
+			expect(Result.isSuccess(registry.get(todosAtom))).toBe(true)
+
+			registry.set(sourceAtom, loading)
+			expect(Result.isInitial(registry.get(todosAtom))).toBe(true)
+
+			unsubscribe()
+		})
+	})
+
 	describe("Result with empty collections", () => {
 		it("should be Success with empty array, not failure", async () => {
 			const registry = Registry.make()
@@ -0,0 +1,210 @@
+/**
+ * Retry Tests for TanStack DB Atom
+ *
+ * These tests verify that refreshing a failed query or collection atom syncs its
+ * failed collections again, and that a retry schedule retries failed atoms
+ * automatically, emitting their failure as waiting until the schedule is exhausted.
+ *
+ * @since 1.0.0
+ */
+
+import { Atom, Result } from "@effect-atom/atom-react"
+import { createCollection, eq } from "@tanstack/db"
+import * as Data from "effect/Data"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Schedule from "effect/Schedule"
+import { describe, expect, it } from "vitest"
+import {
+	makeCollectionAtom,
+	makeInfiniteQuery,
+	makeQuery,
+	makeQueryConditional,
+	makeRetryAtom,
+	makeRuntimeCollectionAtom,
+	makeRuntimeQuery,
+} from "./atom-tanstack-db"
+import { makeTestCollection, makeTestRegistry, resultStates } from "./testing"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+class TenantNotFound extends Data.TaggedError("TenantNotFound")<{}> {}
+
+const sleep = (millis: number) => new Promise((resolve) => setTimeout(resolve, millis))
+
+// Helper to create a collection whose first syncs fail
+function createFlakyCollection(failures: number) {
+	let syncs = 0
+	const collection = createCollection<Todo, string>({
+		id: "todos",
+		getKey: (todo) => todo.id,
+		sync: {
+			sync: ({ begin, write, commit, markReady }) => {
+				syncs++
+				if (syncs <= failures) {
+					throw new Error(`Sync ${syncs} failed`)
+				}
+				begin()
+				for (const value of initialTodos) {
+					write({ type: "insert", value })
+				}
+				commit()
+				markReady()
+			},
+		},
+	})
+	return { collection, syncs: () => syncs }
+}
+
+describe("makeRetryAtom", () => {
+	it("should sync a failed collection again", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const todosAtom = makeCollectionAtom(todos.collection)
+		const retryAtom = makeRetryAtom(todosAtom)
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(todosAtom)
+
+		todos.fail(new Error("Connection lost"))
+		expect(Result.isFailure(recording.latest)).toBe(true)
+
+		registry.set(retryAtom, undefined)
+
+		expect(todos.collection.status).toBe("ready")
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+
+		dispose()
+	})
+
+	it("should build a new live query collection for a failed query", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const openTodosAtom = makeQuery((q) =>
+			q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.completed, false)),
+		)
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(openTodosAtom)
+
+		todos.fail(new Error("Connection lost"))
+		expect(Result.isFailure(recording.latest)).toBe(true)
+
+		registry.refresh(openTodosAtom)
+
+		expect(resultStates(recording.values)).toEqual(["success", "failure", "success"])
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual([initialTodos[0]])
+
+		dispose()
+	})
+})
+
+describe("retry option", () => {
+	it("should retry a failed collection on the schedule", async () => {
+		const todos = createFlakyCollection(2)
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(todos.collection, { retry: Schedule.spaced("1 millis") }))
+
+		await sleep(20)
+
+		expect(todos.syncs()).toBe(3)
+		expect(resultStates(recording.values)).toEqual(["failure:waiting", "success"])
+
+		dispose()
+	})
+
+	it("should emit the failure once the schedule is exhausted", async () => {
+		const todos = createFlakyCollection(Infinity)
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }), {
+				retry: Schedule.spaced("1 millis").pipe(Schedule.intersect(Schedule.recurs(1))),
+			}),
+		)
+
+		await sleep(20)
+
+		expect(todos.syncs()).toBe(2)
+		expect(recording.latest).toMatchObject({ _tag: "Failure", waiting: false })
+
+		dispose()
+	})
+
+	it("should retry an enabled conditional query", async () => {
+		const todos = createFlakyCollection(1)
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQueryConditional((q) => q.from({ todos: todos.collection }), { retry: Schedule.spaced("1 millis") }),
+		)
+
+		await sleep(20)
+
+		expect(todos.syncs()).toBe(2)
+		expect(resultStates(recording.values)).toEqual(["failure:waiting", "success"])
+
+		dispose()
+	})
+
+	it("should retry an infinite query", async () => {
+		const todos = createFlakyCollection(1)
+		const { record, dispose } = makeTestRegistry()
+		const feed = makeInfiniteQuery((q) => q.from({ todos: todos.collection }).orderBy(({ todos }) => todos.id), {
+			pageSize: 10,
+			retry: Schedule.spaced("1 millis"),
+		})
+		const recording = record(feed.data)
+
+		await sleep(20)
+
+		expect(todos.syncs()).toBe(2)
+		expect(resultStates(recording.values)).toEqual(["failure:waiting", "success"])
+
+		dispose()
+	})
+
+	it("should retry a runtime collection atom", async () => {
+		const todos = createFlakyCollection(1)
+		const runtime = Atom.runtime(Layer.empty)
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeRuntimeCollectionAtom(runtime, Effect.succeed(todos.collection), { retry: Schedule.spaced("1 millis") }),
+		)
+
+		await sleep(20)
+
+		expect(todos.syncs()).toBe(2)
+		expect(resultStates(recording.values)).toEqual(["failure:waiting", "success"])
+
+		dispose()
+	})
+
+	it("should build the query of a runtime query again when its Effect failed", async () => {
+		const todos = createFlakyCollection(0)
+		const runtime = Atom.runtime(Layer.empty)
+		let builds = 0
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeRuntimeQuery(
+				runtime,
+				(q) =>
+					Effect.suspend(() =>
+						++builds === 1 ? Effect.fail(new TenantNotFound()) : Effect.succeed(q.from({ todos: todos.collection })),
+					),
+				{ retry: Schedule.spaced("1 millis") },
+			),
+		)
+
+		await sleep(20)
+
+		expect(builds).toBe(2)
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+
+		dispose()
+	})
+})
@@ -0,0 +1,137 @@
+/**
+ * Runtime Atom Tests for TanStack DB Atom
+ *
+ * These tests verify that runtime query and collection atoms resolve their collections
+ * from the services of an Atom.runtime, so the same atom definitions run against
+ * different Layers.
+ *
+ * @since 1.0.0
+ */
+
+import { Atom, Registry, Result } from "@effect-atom/atom-react"
+import { type Collection, eq, type NonSingleResult } from "@tanstack/db"
+import * as Context from "effect/Context"
+import * as Data from "effect/Data"
+import * as Effect from "effect/Effect"
+import * as Layer from "effect/Layer"
+import * as Option from "effect/Option"
+import { describe, expect, it } from "vitest"
+import { makeRuntimeCollectionAtom, makeRuntimeQuery } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+import { QueryCompileError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+class TodoCollection extends Context.Tag("TodoCollection")<
+	TodoCollection,
+	Collection<Todo, string, any> & NonSingleResult
+>() {}
+
+class TenantNotFound extends Data.TaggedError("TenantNotFound")<{ readonly tenant: string }> {}
+
+const tenantLayer = (tenant: string, todos: Array<Todo>) =>
+	Layer.sync(
+		TodoCollection,
+		() =>
+			makeTestCollection({ id: `todos-${tenant}`, getKey: (todo: Todo) => todo.id, initialData: todos })
+				.collection,
+	)
+
+const runtime = Atom.runtime(
+	tenantLayer("a", [
+		{ id: "1", title: "Tenant A task", completed: false },
+		{ id: "2", title: "Tenant A done", completed: true },
+	]),
+)
+
+const openTodosAtom = makeRuntimeQuery(runtime, (q) =>
+	Effect.map(TodoCollection, (todos) => q.from({ todos }).where(({ todos }) => eq(todos.completed, false))),
+)
+
+const todosAtom = makeRuntimeCollectionAtom(runtime, TodoCollection)
+
+describe("makeRuntimeQuery", () => {
+	it("should query the collection provided by the runtime's Layer", () => {
+		const registry = Registry.make()
+		const unsubscribe = registry.subscribe(openTodosAtom, () => {})
+
+		const todos = Option.getOrThrow(Result.value(registry.get(openTodosAtom)))
+		expect(todos.map((todo) => todo.title)).toEqual(["Tenant A task"])
+
+		unsubscribe()
+	})
+
+	it("should run the same atom against another Layer", () => {
+		const registry = Registry.make({
+			initialValues: [[runtime.layer, tenantLayer("b", [{ id: "1", title: "Tenant B task", completed: false }])]],
+		})
+		const unsubscribe = registry.subscribe(openTodosAtom, () => {})
+
+		const todos = Option.getOrThrow(Result.value(registry.get(openTodosAtom)))
+		expect(todos.map((todo) => todo.title)).toEqual(["Tenant B task"])
+
+		unsubscribe()
+	})
+
+	it("should wait while the Layer is built", async () => {
+		const registry = Registry.make({
+			initialValues: [
+				[runtime.layer, Layer.unwrapEffect(Effect.as(Effect.sleep("1 millis"), tenantLayer("c", [])))],
+			],
+		})
+		const unsubscribe = registry.subscribe(openTodosAtom, () => {})
+
+		const waiting = registry.get(openTodosAtom)
+		expect(Result.isInitial(waiting) && waiting.waiting).toBe(true)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		expect(Option.getOrThrow(Result.value(registry.get(openTodosAtom)))).toEqual([])
+
+		unsubscribe()
+	})
+
+	it("should fail with the Layer's error", () => {
+		const registry = Registry.make({
+			initialValues: [[runtime.layer, Layer.fail(new TenantNotFound({ tenant: "d" }))]],
+		})
+		const unsubscribe = registry.subscribe(openTodosAtom, () => {})
+
+		const error = Option.getOrThrow(Result.error(registry.get(openTodosAtom)))
+		expect(error).toBeInstanceOf(TenantNotFound)
+
+		unsubscribe()
+	})
+
+	it("should fail with QueryCompileError when the query does not compile", () => {
+		const registry = Registry.make()
+		const invalidAtom = makeRuntimeQuery(runtime, (q) =>
+			// A limit without an orderBy fails to compile
+			Effect.map(TodoCollection, (todos) => q.from({ todos }).limit(1)),
+		)
+		const unsubscribe = registry.subscribe(invalidAtom, () => {})
+
+		const error = Option.getOrThrow(Result.error(registry.get(invalidAtom)))
+		expect(error).toBeInstanceOf(QueryCompileError)
+
+		unsubscribe()
+	})
+})
+
+describe("makeRuntimeCollectionAtom", () => {
+	it("should read the collection provided by the runtime's Layer", () => {
+		const registry = Registry.make({
+			initialValues: [[runtime.layer, tenantLayer("e", [{ id: "1", title: "Tenant E task", completed: true }])]],
+		})
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+		const todos = Option.getOrThrow(Result.value(registry.get(todosAtom)))
+		expect(todos.map((todo) => todo.title)).toEqual(["Tenant E task"])
+
+		unsubscribe()
+	})
+})
@@ -0,0 +1,174 @@
+/**
+ * Result Shape Tests for TanStack DB Atom
+ *
+ * These tests verify that query atoms return their rows as a Map, an effect HashMap
+ * or an array with a key index, keyed by row key and kept in the query's order.
+ *
+ * @since 1.0.0
+ */
+
+import { Result } from "@effect-atom/atom-react"
+import { eq } from "@tanstack/db"
+import * as HashMap from "effect/HashMap"
+import * as Option from "effect/Option"
+import { describe, expect, it } from "vitest"
+import { makeQuery } from "./atom-tanstack-db"
+import { makeTestCollection, makeTestRegistry } from "./testing"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	priority: number
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", priority: 2 },
+	{ id: "2", title: "Task 2", priority: 3 },
+	{ id: "3", title: "Task 3", priority: 1 },
+]
+
+const makeTodos = () => makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+
+describe("makeQuery shape", () => {
+	it("should return a Map in the query's order", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }).orderBy(({ todos }) => todos.priority, "desc"), {
+				shape: "map",
+			}),
+		)
+
+		const byId = Option.getOrThrow(Result.value(recording.latest))
+		expect([...byId.keys()]).toEqual(["2", "1", "3"])
+		expect(byId.get("3")?.title).toBe("Task 3")
+
+		todos.apply({ type: "insert", value: { id: "4", title: "Task 4", priority: 4 } })
+		expect([...Option.getOrThrow(Result.value(recording.latest)).keys()]).toEqual(["4", "2", "1", "3"])
+
+		dispose()
+	})
+
+	it("should return an effect HashMap", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(makeQuery((q) => q.from({ todos: todos.collection }), { shape: "hashMap" }))
+
+		const byId = Option.getOrThrow(Result.value(recording.latest))
+		expect(HashMap.size(byId)).toBe(3)
+		expect(Option.map(HashMap.get(byId, "2"), (todo) => todo.title)).toEqual(Option.some("Task 2"))
+
+		dispose()
+	})
+
+	it("should return the rows with a key index", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }).orderBy(({ todos }) => todos.priority), {
+				shape: "indexed",
+			}),
+		)
+
+		const { rows, index } = Option.getOrThrow(Result.value(recording.latest))
+		expect(rows.map((todo) => todo.id)).toEqual(["3", "1", "2"])
+		expect(rows[index.get("2")!]?.title).toBe("Task 2")
+
+		dispose()
+	})
+
+	it("should only build a new Map when the rows change", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.priority, 1)), {
+				shape: "map",
+			}),
+		)
+		const before = Option.getOrThrow(Result.value(recording.latest))
+
+		// Rows outside the query leave its result untouched
+		todos.apply({ type: "insert", value: { id: "4", title: "Task 4", priority: 4 } })
+		expect(Option.getOrThrow(Result.value(recording.latest))).toBe(before)
+
+		todos.apply({ type: "insert", value: { id: "5", title: "Task 5", priority: 1 } })
+		expect(Option.getOrThrow(Result.value(recording.latest)).size).toBe(2)
+
+		dispose()
+	})
+
+	it("should update the shape from the changed rows instead of rebuilding it", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		let keyed = 0
+		const countKeys = (id: string) => {
+			keyed++
+			return id
+		}
+		const map = record(
+			makeQuery((q) => q.from({ todos: todos.collection }), { shape: "map", getKey: (todo) => countKeys(todo.id) }),
+		)
+		const hashMap = record(
+			makeQuery((q) => q.from({ todos: todos.collection }), { shape: "hashMap", getKey: (todo) => countKeys(todo.id) }),
+		)
+		const indexed = record(
+			makeQuery((q) => q.from({ todos: todos.collection }), { shape: "indexed", getKey: (todo) => countKeys(todo.id) }),
+		)
+		expect(keyed).toBe(9)
+		const { index } = Option.getOrThrow(Result.value(indexed.latest))
+
+		// Each shape only keys the updated row, and an in-place update keeps the index
+		todos.apply({ type: "update", value: { id: "2", title: "Task 2 renamed", priority: 3 } })
+		expect(keyed).toBe(11)
+		expect(Option.getOrThrow(Result.value(map.latest)).get("2")?.title).toBe("Task 2 renamed")
+		expect(Option.map(HashMap.get(Option.getOrThrow(Result.value(hashMap.latest)), "2"), (todo) => todo.title)).toEqual(
+			Option.some("Task 2 renamed"),
+		)
+		expect(Option.getOrThrow(Result.value(indexed.latest)).index).toBe(index)
+
+		// Deleting a row only re-indexes the rows after it
+		todos.apply({ type: "delete", value: { id: "2", title: "Task 2 renamed", priority: 3 } })
+		expect([...Option.getOrThrow(Result.value(map.latest)).keys()]).toEqual(["1", "3"])
+		expect(HashMap.has(Option.getOrThrow(Result.value(hashMap.latest)), "2")).toBe(false)
+		expect([...Option.getOrThrow(Result.value(indexed.latest)).index]).toEqual([
+			["1", 0],
+			["3", 1],
+		])
+		expect(keyed).toBe(15)
+
+		dispose()
+	})
+
+	it("should key the shape with getKey", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }), { shape: "map", getKey: (todo) => `todo-${todo.id}` }),
+		)
+
+		const byId: ReadonlyMap<`todo-${string}`, Todo> = Option.getOrThrow(Result.value(recording.latest))
+		expect(byId.get("todo-2")?.title).toBe("Task 2")
+
+		dispose()
+	})
+
+	it("should keep the single row of findOne queries", () => {
+		const todos = makeTodos()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery(
+				(q) =>
+					q
+						.from({ todos: todos.collection })
+						.where(({ todos }) => eq(todos.id, "2"))
+						.findOne(),
+				{ shape: "map" },
+			),
+		)
+
+		expect(Option.getOrThrow(Result.value(recording.latest))?.title).toBe("Task 2")
+
+		dispose()
+	})
+})
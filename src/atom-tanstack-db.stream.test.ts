@@ -0,0 +1,198 @@
+/**
+ * Stream Tests for TanStack DB Atom
+ *
+ * These tests verify that collections and live queries can be consumed as Effect
+ * Streams of change events or full snapshots, and that subscriptions are released
+ * when the stream's scope closes.
+ *
+ * @since 1.0.0
+ */
+
+import { createCollection, eq } from "@tanstack/db"
+import * as Chunk from "effect/Chunk"
+import * as Effect from "effect/Effect"
+import * as Fiber from "effect/Fiber"
+import * as Stream from "effect/Stream"
+import { describe, expect, it } from "vitest"
+import { collectionToSnapshotStream, collectionToStream, queryToSnapshotStream, queryToStream } from "./atom-tanstack-db"
+import { makeTestCollection } from "./testing"
+import { CollectionLoadError, QueryCompileError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+	{ id: "3", title: "Task 3", completed: false },
+]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// Runs a stream in the background, collecting its first `count` elements
+const collect = <A, E>(stream: Stream.Stream<A, E>, count: number) =>
+	Effect.runFork(stream.pipe(Stream.take(count), Stream.runCollect, Effect.map(Chunk.toReadonlyArray)))
+
+describe("collectionToStream", () => {
+	it("should emit the current rows as inserts followed by later changes", async () => {
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const fiber = collect(collectionToStream(collection), 4)
+		await flush()
+
+		apply({ type: "update", value: { id: "2", title: "Task 2 updated", completed: true } })
+
+		const events = await Effect.runPromise(Fiber.join(fiber))
+		expect(events.map((event) => `${event.type}:${event.key}`)).toEqual([
+			"insert:1",
+			"insert:2",
+			"insert:3",
+			"update:2",
+		])
+		expect(events[3]?.value.title).toBe("Task 2 updated")
+		expect(events[3]?.previousValue?.title).toBe("Task 2")
+	})
+
+	it("should unsubscribe when the stream completes", async () => {
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		await Effect.runPromise(collectionToStream(collection).pipe(Stream.take(3), Stream.runDrain))
+
+		expect(collection.subscriberCount).toBe(0)
+	})
+
+	it("should fail with a CollectionLoadError when sync fails", async () => {
+		const syncError = new Error("Network unreachable")
+		const config: any = {
+			id: "failing-collection",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: () => {
+					throw syncError
+				},
+			},
+			startSync: false,
+		}
+		const collection = createCollection<Todo>(config)
+
+		const error = await Effect.runPromise(Stream.runDrain(collectionToStream(collection)).pipe(Effect.flip))
+
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		if (error._tag === "CollectionLoadError") {
+			expect(error.cause).toBe(syncError)
+		}
+	})
+})
+
+describe("collectionToSnapshotStream", () => {
+	it("should emit the full rows once ready and after every change", async () => {
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const fiber = collect(collectionToSnapshotStream(collection), 2)
+		await flush()
+
+		apply({ type: "insert", value: { id: "4", title: "Task 4", completed: false } })
+
+		const snapshots = await Effect.runPromise(Fiber.join(fiber))
+		expect(snapshots.map((rows) => rows.length)).toEqual([3, 4])
+		// Unchanged rows keep their reference between snapshots
+		expect(snapshots[1]?.[0]).toBe(snapshots[0]?.[0])
+	})
+})
+
+describe("queryToStream", () => {
+	it("should stream changes to the query result", async () => {
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const fiber = collect(
+			queryToStream((q) => q.from({ todos: collection }).where(({ todos }) => eq(todos.completed, true))),
+			2,
+		)
+		await flush()
+
+		apply({ type: "update", value: { id: "3", title: "Task 3", completed: true } })
+
+		const events = await Effect.runPromise(Fiber.join(fiber))
+		expect(events.map((event) => `${event.type}:${event.value.id}`)).toEqual(["insert:2", "insert:3"])
+		expect(collection.subscriberCount).toBe(0)
+	})
+
+	it("should fail with a QueryCompileError for an invalid query", async () => {
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const error = await Effect.runPromise(
+			Stream.runDrain(queryToStream((q) => q.from({ todos: collection }).limit(1))).pipe(Effect.flip),
+		)
+
+		expect(error).toBeInstanceOf(QueryCompileError)
+	})
+})
+
+describe("queryToSnapshotStream", () => {
+	it("should emit query results", async () => {
+		const { collection, apply } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const fiber = collect(
+			queryToSnapshotStream((q) =>
+				q
+					.from({ todos: collection })
+					.where(({ todos }) => eq(todos.completed, false))
+					.select(({ todos }) => ({ title: todos.title })),
+			),
+			2,
+		)
+		await flush()
+
+		apply({ type: "delete", value: initialTodos[0]! })
+
+		const snapshots = await Effect.runPromise(Fiber.join(fiber))
+		expect(snapshots).toEqual([[{ title: "Task 1" }, { title: "Task 3" }], [{ title: "Task 3" }]])
+	})
+
+	it("should emit a single value for findOne queries", async () => {
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		const [todo] = await Effect.runPromise(
+			queryToSnapshotStream((q) =>
+				q
+					.from({ todos: collection })
+					.where(({ todos }) => eq(todos.id, "2"))
+					.findOne(),
+			).pipe(Stream.take(1), Stream.runCollect, Effect.map(Chunk.toReadonlyArray)),
+		)
+
+		expect(todo?.title).toBe("Task 2")
+	})
+})
@@ -12,7 +12,8 @@
 import { Atom, Registry, Result } from "@effect-atom/atom-react"
 import { type Collection, createCollection, eq, type NonSingleResult } from "@tanstack/db"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
-import { makeCollectionAtom, makeQuery } from "./atom-tanstack-db"
+import { makeCollectionAtom, makeCollectionItemAtom, makeCollectionStatusAtom, makeQuery } from "./atom-tanstack-db"
+import { CollectionLoadError, type CollectionStatusInfo } from "./types"
 
 // Test data types
 type Todo = {
@@ -637,3 +638,259 @@ describe("Advanced Subscription Patterns", () => {
 		unsub()
 	})
 })
+
+describe("makeCollectionItemAtom", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("should read a single row by key", async () => {
+		const registry = Registry.make()
+		const { collection } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+
+		const todoAtom = makeCollectionItemAtom(collection)
+
+		await vi.runAllTimersAsync()
+
+		const result = registry.get(todoAtom("2"))
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value?.title).toBe("Task 2")
+		}
+
+		const missing = registry.get(todoAtom("999"))
+		expect(Result.isSuccess(missing)).toBe(true)
+		if (Result.isSuccess(missing)) {
+			expect(missing.value).toBeUndefined()
+		}
+	})
+
+	it("should return the same atom for the same key", () => {
+		const { collection } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+		const todoAtom = makeCollectionItemAtom(collection)
+
+		expect(todoAtom("1")).toBe(todoAtom("1"))
+		expect(todoAtom("1")).not.toBe(todoAtom("2"))
+	})
+
+	it("should only notify when its own row changes", async () => {
+		const registry = Registry.make()
+		const { collection, utils } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+
+		const todoAtom = makeCollectionItemAtom(collection)
+
+		await vi.runAllTimersAsync()
+
+		const updates1: Array<string | undefined> = []
+		const updates2: Array<string | undefined> = []
+		const unsub1 = registry.subscribe(todoAtom("1"), (result) => {
+			if (Result.isSuccess(result)) updates1.push(result.value?.title)
+		})
+		const unsub2 = registry.subscribe(todoAtom("2"), (result) => {
+			if (Result.isSuccess(result)) updates2.push(result.value?.title)
+		})
+
+		// Trigger initial subscription by getting values
+		registry.get(todoAtom("1"))
+		registry.get(todoAtom("2"))
+		updates1.length = 0
+		updates2.length = 0
+
+		utils.update("2", { id: "2", title: "Task 2 updated", completed: true, userId: "user1" })
+		await vi.runAllTimersAsync()
+
+		expect(updates1).toEqual([])
+		expect(updates2).toEqual(["Task 2 updated"])
+
+		utils.insert({ id: "4", title: "Task 4", completed: false, userId: "user1" })
+		await vi.runAllTimersAsync()
+
+		expect(updates1).toEqual([])
+		expect(updates2).toEqual(["Task 2 updated"])
+
+		unsub1()
+		unsub2()
+	})
+
+	it("should emit undefined when its row is deleted", async () => {
+		const registry = Registry.make()
+		const { collection, utils } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+
+		const todoAtom = makeCollectionItemAtom(collection)
+
+		await vi.runAllTimersAsync()
+
+		const updates: Array<Result.Result<Todo | undefined, unknown>> = []
+		const unsub = registry.subscribe(todoAtom("3"), (result) => updates.push(result))
+		registry.get(todoAtom("3"))
+		updates.length = 0
+
+		utils.delete("3", initialTodos[2]!)
+		await vi.runAllTimersAsync()
+
+		expect(updates).toHaveLength(1)
+		const result = registry.get(todoAtom("3"))
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value).toBeUndefined()
+		}
+
+		unsub()
+	})
+
+	it("should transition from Initial to Success when the collection becomes ready", async () => {
+		const registry = Registry.make()
+
+		let markReady: () => void
+
+		const config: any = {
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: (params: any) => {
+					markReady = () => {
+						params.begin()
+						for (const todo of initialTodos) {
+							params.write({ type: "insert", value: todo })
+						}
+						params.commit()
+						params.markReady()
+					}
+				},
+			},
+			startSync: true,
+		}
+
+		const collection = createCollection<Todo>(config)
+		const todoAtom = makeCollectionItemAtom(collection)
+
+		const unsub = registry.subscribe(todoAtom("1"), () => {})
+		expect(Result.isInitial(registry.get(todoAtom("1")))).toBe(true)
+
+		markReady!()
+		await vi.runAllTimersAsync()
+
+		const result = registry.get(todoAtom("1"))
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value?.title).toBe("Task 1")
+		}
+
+		unsub()
+	})
+})
+
+describe("makeCollectionStatusAtom", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("should report the status and size of a ready collection", async () => {
+		const registry = Registry.make()
+		const { collection } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+
+		const statusAtom = makeCollectionStatusAtom(collection)
+
+		await vi.runAllTimersAsync()
+
+		const info = registry.get(statusAtom)
+		expect(info.status).toBe("ready")
+		expect(info.size).toBe(3)
+		expect(info.lastChangeAt).toBeUndefined()
+		expect(info.lastError).toBeUndefined()
+	})
+
+	it("should notify on status transitions", async () => {
+		const registry = Registry.make()
+
+		let markReady: () => void
+
+		const config: any = {
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: (params: any) => {
+					markReady = () => {
+						params.begin()
+						for (const todo of initialTodos) {
+							params.write({ type: "insert", value: todo })
+						}
+						params.commit()
+						params.markReady()
+					}
+				},
+			},
+			startSync: true,
+		}
+
+		const collection = createCollection<Todo>(config)
+		const statusAtom = makeCollectionStatusAtom(collection)
+
+		const updates: Array<CollectionStatusInfo> = []
+		const unsub = registry.subscribe(statusAtom, (info) => updates.push(info))
+		expect(registry.get(statusAtom).status).toBe("loading")
+		updates.length = 0
+
+		markReady!()
+		await vi.runAllTimersAsync()
+
+		// The ready transition is reported once
+		expect(updates.filter((info) => info.status === "ready")).toHaveLength(1)
+		expect(updates.at(-1)?.size).toBe(3)
+
+		unsub()
+	})
+
+	it("should track size and the last change timestamp", async () => {
+		const registry = Registry.make()
+		const { collection, utils } = createMutableCollection("todos", initialTodos, (todo) => todo.id)
+
+		const statusAtom = makeCollectionStatusAtom(collection)
+
+		await vi.runAllTimersAsync()
+
+		const unsub = registry.subscribe(statusAtom, () => {})
+		registry.get(statusAtom)
+
+		vi.setSystemTime(new Date("2025-01-01T00:00:00Z"))
+		utils.insert({ id: "4", title: "Task 4", completed: false, userId: "user1" })
+		await vi.runAllTimersAsync()
+
+		const info = registry.get(statusAtom)
+		expect(info.size).toBe(4)
+		expect(info.lastChangeAt).toBe(new Date("2025-01-01T00:00:00Z").getTime())
+
+		unsub()
+	})
+
+	it("should expose the last error with its sync cause", () => {
+		const registry = Registry.make()
+		const syncError = new Error("Network unreachable")
+		const config: any = {
+			id: "failing-collection",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: () => {
+					throw syncError
+				},
+			},
+			startSync: false,
+		}
+
+		const collection = createCollection<Todo>(config)
+		const info = registry.get(makeCollectionStatusAtom(collection))
+
+		expect(info.status).toBe("error")
+		expect(info.lastError).toBeInstanceOf(CollectionLoadError)
+		expect(info.lastError?.collectionId).toBe("failing-collection")
+		expect(info.lastError?.cause).toBe(syncError)
+	})
+})
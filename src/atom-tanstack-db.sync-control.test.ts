@@ -0,0 +1,180 @@
+/**
+ * Sync Control Tests for TanStack DB Atom
+ *
+ * These tests verify that atoms created with `startSync: false` stay idle until they
+ * are started, and that a sync control pauses, resumes and restarts the query and
+ * collection atoms created with it.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { createCollection, eq } from "@tanstack/db"
+import { describe, expect, it } from "vitest"
+import { makeCollectionAtom, makeQuery, makeSyncControl } from "./atom-tanstack-db"
+import { makeTestCollection, makeTestRegistry, resultStates } from "./testing"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// Helper to create a collection that is not started until something subscribes to it
+function createLazyCollection() {
+	let syncs = 0
+	const collection = createCollection<Todo, string>({
+		id: "todos",
+		getKey: (todo) => todo.id,
+		sync: {
+			sync: ({ begin, write, commit, markReady }) => {
+				syncs++
+				begin()
+				for (const value of initialTodos) {
+					write({ type: "insert", value })
+				}
+				commit()
+				markReady()
+			},
+		},
+	})
+	return { collection, syncs: () => syncs }
+}
+
+describe("startSync: false", () => {
+	it("should keep a collection atom idle until the collection is started elsewhere", () => {
+		const todos = createLazyCollection()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(todos.collection, { startSync: false }))
+
+		expect(todos.collection.status).toBe("idle")
+		expect(recording.latest).toEqual(Result.initial())
+
+		todos.collection.startSyncImmediate()
+
+		// Idle, then loading, then ready
+		expect(resultStates(recording.values)).toEqual(["initial", "initial:waiting", "success"])
+		expect(todos.syncs()).toBe(1)
+
+		dispose()
+	})
+
+	it("should keep a query atom idle until its sync control starts it", () => {
+		const todos = createLazyCollection()
+		const control = makeSyncControl()
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.completed, false)), {
+				startSync: false,
+				syncControl: control,
+			}),
+		)
+
+		expect(recording.latest).toEqual(Result.initial())
+		expect(todos.syncs()).toBe(0)
+		expect(registry.get(control.status)).toBe("idle")
+
+		registry.set(control.start, undefined)
+
+		expect(registry.get(control.status)).toBe("syncing")
+		expect(resultStates(recording.values)).toEqual(["initial", "success"])
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual([initialTodos[0]])
+
+		dispose()
+	})
+})
+
+describe("makeSyncControl", () => {
+	it("should pause atoms on their last Result and resume them", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const control = makeSyncControl()
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(todos.collection, { syncControl: control }))
+
+		registry.set(control.pause, undefined)
+		await flush()
+
+		// Paused atoms release their subscription and keep their last Result
+		expect(todos.collection.subscriberCount).toBe(0)
+		todos.apply({ type: "delete", key: "1" })
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+
+		registry.set(control.resume, undefined)
+
+		expect(todos.collection.subscriberCount).toBe(1)
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual([initialTodos[1]])
+
+		dispose()
+	})
+
+	it("should restart query atoms with a new live query collection", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const control = makeSyncControl()
+		const { registry, record, dispose } = makeTestRegistry()
+		const todosAtom = makeQuery((q) => q.from({ todos: todos.collection }), { syncControl: control })
+		const recording = record(todosAtom)
+		const first = Result.getOrElse(recording.latest, () => [])
+
+		registry.set(control.restart, undefined)
+		await flush()
+
+		expect(registry.get(control.status)).toBe("syncing")
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+		expect(Result.getOrElse(recording.latest, () => [])).not.toBe(first)
+		// The previous live query collection was released
+		expect(todos.collection.subscriberCount).toBe(1)
+
+		dispose()
+	})
+
+	it("should not sync the base collection again on restart", async () => {
+		const { collection, syncs } = createLazyCollection()
+		const control = makeSyncControl()
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(collection, { syncControl: control }))
+
+		registry.set(control.restart, undefined)
+		await flush()
+
+		expect(syncs()).toBe(1)
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+
+		dispose()
+	})
+
+	it("should ignore sync controls not created by makeSyncControl", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { status, start, pause, resume, restart } = makeSyncControl()
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeCollectionAtom(todos.collection, { syncControl: { status, start, pause, resume, restart } }),
+		)
+
+		expect(Result.getOrElse(recording.latest, () => [])).toEqual(initialTodos)
+
+		dispose()
+	})
+
+	it("should only start idle controls and only resume paused ones", () => {
+		const control = makeSyncControl()
+		const registry = Registry.make()
+
+		registry.set(control.resume, undefined)
+		expect(registry.get(control.status)).toBe("idle")
+
+		registry.set(control.pause, undefined)
+		registry.set(control.start, undefined)
+		expect(registry.get(control.status)).toBe("paused")
+
+		registry.set(control.resume, undefined)
+		expect(registry.get(control.status)).toBe("syncing")
+	})
+})
@@ -0,0 +1,404 @@
+/**
+ * Effect Sync Adapter Tests for TanStack DB Atom
+ *
+ * These tests verify that effectCollectionOptions drives a collection's sync from
+ * an Effect and a Stream, surfaces failures through the collection's error status,
+ * and interrupts the sync when the collection is cleaned up.
+ *
+ * @since 1.0.0
+ */
+
+import { Registry, Result } from "@effect-atom/atom-react"
+import { createCollection } from "@tanstack/db"
+import * as Context from "effect/Context"
+import * as Data from "effect/Data"
+import * as Effect from "effect/Effect"
+import * as Option from "effect/Option"
+import * as ParseResult from "effect/ParseResult"
+import * as Queue from "effect/Queue"
+import * as Runtime from "effect/Runtime"
+import * as Schema from "effect/Schema"
+import * as Stream from "effect/Stream"
+import { describe, expect, it } from "vitest"
+import {
+	effectCollectionOptions,
+	makeCollectionAtom,
+	makeCollectionMutations,
+	makeCollectionStatusAtom,
+} from "./atom-tanstack-db"
+import { CollectionLoadError, MutationRejectedError, RowDecodeError } from "./types"
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+class FetchError extends Data.TaggedError("FetchError")<{ readonly status: number }> {}
+
+class TodoApi extends Context.Tag("TodoApi")<TodoApi, { readonly list: Effect.Effect<Array<Todo>, FetchError> }>() {}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const getError = <A>(result: Result.Result<A, unknown>): unknown => Option.getOrThrow(Result.error(result))
+
+describe("effectCollectionOptions", () => {
+	it("should load the initial rows and mark the collection ready", () => {
+		const registry = Registry.make()
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.succeed(initialTodos),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const result = registry.get(makeCollectionAtom(collection))
+
+		expect(collection.status).toBe("ready")
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value).toEqual(initialTodos)
+		}
+	})
+
+	it("should provide the runtime's services to load", async () => {
+		const registry = Registry.make()
+		const runtime = Effect.runSync(
+			Effect.runtime<TodoApi>().pipe(
+				Effect.provideService(TodoApi, { list: Effect.succeed(initialTodos).pipe(Effect.delay("1 millis")) }),
+			),
+		)
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.flatMap(TodoApi, (api) => api.list),
+				runtime,
+			}),
+		)
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+		expect(Result.isInitial(registry.get(todosAtom))).toBe(true)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const result = registry.get(todosAtom)
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value).toHaveLength(2)
+		}
+
+		unsubscribe()
+	})
+
+	it("should apply each chunk of the changes stream in one batch", async () => {
+		const registry = Registry.make()
+		const queue = Effect.runSync(Queue.unbounded<{ type: "insert" | "update"; value: Todo } | { type: "delete"; key: string }>())
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.succeed(initialTodos),
+				changes: Stream.fromQueue(queue),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const todosAtom = makeCollectionAtom(collection)
+		const updates: Array<Result.Result<Array<Todo>, unknown>> = []
+		const unsubscribe = registry.subscribe(todosAtom, (result) => updates.push(result))
+		registry.get(todosAtom)
+		updates.length = 0
+
+		Effect.runSync(
+			Queue.offerAll(queue, [
+				{ type: "update", value: { id: "1", title: "Task 1", completed: true } },
+				{ type: "insert", value: { id: "3", title: "Task 3", completed: false } },
+				{ type: "delete", key: "2" },
+			]),
+		)
+		await flush()
+
+		expect(updates).toHaveLength(1)
+		const result = registry.get(todosAtom)
+		if (Result.isSuccess(result)) {
+			expect(result.value.map((todo) => todo.id)).toEqual(["1", "3"])
+			expect(result.value[0]?.completed).toBe(true)
+		} else {
+			expect.fail("Expected success")
+		}
+
+		unsubscribe()
+	})
+
+	it("should fail the collection atom with the load failure as cause", async () => {
+		const registry = Registry.make()
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.fail(new FetchError({ status: 503 })).pipe(Effect.delay("1 millis")),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+		registry.get(todosAtom)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		expect(collection.status).toBe("error")
+		const error = getError(registry.get(todosAtom))
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		expect((error as CollectionLoadError).cause).toEqual(new FetchError({ status: 503 }))
+
+		unsubscribe()
+	})
+
+	it("should fail the collection when the changes stream fails after loading", async () => {
+		const registry = Registry.make()
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.succeed(initialTodos),
+				changes: Stream.fromEffect(Effect.fail(new FetchError({ status: 500 })).pipe(Effect.delay("1 millis"))),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const todosAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+
+		expect(Result.isSuccess(registry.get(todosAtom))).toBe(true)
+
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const error = getError(registry.get(todosAtom))
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		expect((error as CollectionLoadError).cause).toEqual(new FetchError({ status: 500 }))
+
+		unsubscribe()
+	})
+
+	it("should interrupt the sync when the collection is cleaned up", async () => {
+		let interrupted = false
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "todos",
+				getKey: (todo: Todo) => todo.id,
+				load: Effect.never.pipe(
+					Effect.onInterrupt(() =>
+						Effect.sync(() => {
+							interrupted = true
+						}),
+					),
+				),
+				runtime: Runtime.defaultRuntime,
+				startSync: true,
+			}),
+		)
+
+		expect(collection.status).toBe("loading")
+
+		await collection.cleanup()
+		await flush()
+
+		expect(interrupted).toBe(true)
+		expect(collection.status).toBe("cleaned-up")
+	})
+})
+
+const Event = Schema.Struct({
+	id: Schema.String.pipe(Schema.brand("EventId")),
+	title: Schema.NonEmptyString,
+	startsAt: Schema.Date,
+})
+
+type Event = typeof Event.Type
+type EncodedEvent = typeof Event.Encoded
+
+const encodedEvents: Array<EncodedEvent> = [
+	{ id: "1", title: "Standup", startsAt: "2024-01-01T09:00:00.000Z" },
+	{ id: "2", title: "Review", startsAt: "2024-01-02T15:00:00.000Z" },
+]
+
+describe("effectCollectionOptions with a schema", () => {
+	it("should decode synced rows", async () => {
+		const registry = Registry.make()
+		const queue = Effect.runSync(Queue.unbounded<{ type: "insert"; value: EncodedEvent }>())
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed(encodedEvents),
+				changes: Stream.fromQueue(queue),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const eventsAtom = makeCollectionAtom(collection)
+		const unsubscribe = registry.subscribe(eventsAtom, () => {})
+		registry.get(eventsAtom)
+
+		Effect.runSync(
+			Queue.offer(queue, { type: "insert", value: { id: "3", title: "Retro", startsAt: "2024-01-03T10:00:00.000Z" } }),
+		)
+		await flush()
+
+		const result = registry.get(eventsAtom)
+		if (Result.isSuccess(result)) {
+			expect(result.value).toHaveLength(3)
+			expect(result.value[0]?.startsAt).toEqual(new Date("2024-01-01T09:00:00.000Z"))
+			expect(result.value[2]?.startsAt).toBeInstanceOf(Date)
+		} else {
+			expect.fail("Expected success")
+		}
+
+		unsubscribe()
+	})
+
+	it("should fail with a RowDecodeError when a row is invalid", () => {
+		const registry = Registry.make()
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed([...encodedEvents, { id: "3", title: "Retro", startsAt: "not a date" }]),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const error = getError(registry.get(makeCollectionAtom(collection)))
+
+		expect(collection.status).toBe("error")
+		expect(error).toBeInstanceOf(RowDecodeError)
+		expect(ParseResult.isParseError((error as RowDecodeError).cause)).toBe(true)
+		expect((error as RowDecodeError).collectionId).toBe("events")
+	})
+
+	it("should report a RowDecodeError as the collection's last error", () => {
+		const registry = Registry.make()
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed([{ id: "3", title: "Retro", startsAt: "not a date" }]),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const { lastError } = registry.get(makeCollectionStatusAtom(collection))
+
+		expect(lastError).toBeInstanceOf(RowDecodeError)
+		expect(lastError?.collectionId).toBe("events")
+	})
+
+	it("should quarantine invalid rows when onInvalidRow is given", () => {
+		const registry = Registry.make()
+		const invalidRows: Array<unknown> = []
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed([...encodedEvents, { id: "3", title: "", startsAt: "2024-01-03T10:00:00.000Z" }]),
+				onInvalidRow: (_error, row) =>
+					Effect.sync(() => {
+						invalidRows.push(row)
+					}),
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+
+		const result = registry.get(makeCollectionAtom(collection))
+
+		expect(Result.isSuccess(result)).toBe(true)
+		if (Result.isSuccess(result)) {
+			expect(result.value.map((event) => event.id)).toEqual(["1", "2"])
+		}
+		expect(invalidRows).toEqual([{ id: "3", title: "", startsAt: "2024-01-03T10:00:00.000Z" }])
+	})
+
+	it("should encode mutated rows before persistence", async () => {
+		const registry = Registry.make()
+		const persisted: Array<ReadonlyArray<EncodedEvent>> = []
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed(encodedEvents),
+				onInsert: async ({ encoded }) => {
+					persisted.push(encoded)
+				},
+				runtime: Runtime.defaultRuntime,
+			}),
+		)
+		const { insert } = makeCollectionMutations(collection)
+		const unmount = registry.mount(insert)
+
+		registry.set(insert, {
+			id: Event.fields.id.make("3"),
+			title: "Retro",
+			startsAt: new Date("2024-01-03T10:00:00.000Z"),
+		})
+		await flush()
+
+		expect(Result.isSuccess(registry.get(insert))).toBe(true)
+		expect(persisted).toEqual([[{ id: "3", title: "Retro", startsAt: "2024-01-03T10:00:00.000Z" }]])
+
+		unmount()
+	})
+
+	it("should reject the transaction when a mutated row fails to encode", async () => {
+		const registry = Registry.make()
+		let persisted = false
+		const collection = createCollection(
+			effectCollectionOptions({
+				id: "events",
+				getKey: (event: Event) => event.id,
+				schema: Event,
+				load: Effect.succeed(encodedEvents),
+				onUpdate: async () => {
+					persisted = true
+				},
+				runtime: Runtime.defaultRuntime,
+				startSync: true,
+			}),
+		)
+		const { update } = makeCollectionMutations(collection)
+		const unmount = registry.mount(update)
+
+		const id = Event.fields.id.make("1")
+		registry.set(update, {
+			key: id,
+			update: (draft) => {
+				draft.title = ""
+			},
+		})
+		await flush()
+
+		const error = getError(registry.get(update))
+		expect(error).toBeInstanceOf(MutationRejectedError)
+		expect(ParseResult.isParseError((error as MutationRejectedError).cause)).toBe(true)
+		expect(persisted).toBe(false)
+		expect(collection.get(id)?.title).toBe("Standup")
+
+		unmount()
+	})
+})
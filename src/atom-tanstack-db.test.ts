@@ -9,23 +9,26 @@
  * - makeSingleCollectionAtom: Creates atoms from single-result collections
  * - makeQuery: Creates atoms from query functions with Result wrapper
  * - makeQueryUnsafe: Creates atoms from query functions without Result wrapper
- * - makeQueryConditional: Creates atoms from conditional queries (can return null)
+ * - makeQueryConditional: Creates atoms from conditional queries (initial while they return null)
  * - Integration tests: Multiple collections, empty collections, edge cases
  * - Error handling: Loading states, waiting states, edge cases
  *
  * @since 1.0.0
  */
 
-import { Registry, Result } from "@effect-atom/atom-react"
+import { Atom, Registry, Result } from "@effect-atom/atom-react"
 import { type Collection, createCollection, eq, type NonSingleResult, type SingleResult } from "@tanstack/db"
+import * as Option from "effect/Option"
 import { describe, expect, it } from "vitest"
 import {
 	makeCollectionAtom,
 	makeQuery,
 	makeQueryConditional,
 	makeQueryUnsafe,
+	makeReactiveQuery,
 	makeSingleCollectionAtom,
 } from "./atom-tanstack-db"
+import { CollectionLoadError, QueryCompileError, type TanStackDBError } from "./types"
 
 // Test data types
 type Todo = {
@@ -205,7 +208,7 @@ describe("makeCollectionAtom", () => {
 		const todosAtom = makeCollectionAtom(collection)
 
 		// Track updates
-		const updates: Array<Result.Result<Array<Todo>, Error>> = []
+		const updates: Array<Result.Result<Array<Todo>, TanStackDBError>> = []
 		const unsubscribe = registry.subscribe(todosAtom, (value) => {
 			updates.push(value)
 		})
@@ -429,6 +432,137 @@ describe("makeQuery", () => {
 	})
 })
 
+describe("makeReactiveQuery", () => {
+	it("should re-create the query when a dependency changes", async () => {
+		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection(
+			"todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
+
+		await waitForReady(todosCollection)
+
+		const userIdAtom = Atom.make("user1")
+		const userTodosAtom = makeReactiveQuery((q, get) =>
+			q.from({ todos: todosCollection }).where(({ todos }) => eq(todos.userId, get(userIdAtom))),
+		)
+
+		const unsubscribe = registry.subscribe(userTodosAtom, () => {})
+
+		const before = registry.get(userTodosAtom)
+		expect(Result.isSuccess(before)).toBe(true)
+		if (Result.isSuccess(before)) {
+			expect(before.value.map((todo) => todo.id)).toEqual(["1", "2"])
+		}
+
+		registry.set(userIdAtom, "user2")
+
+		const after = registry.get(userTodosAtom)
+		expect(Result.isSuccess(after)).toBe(true)
+		if (Result.isSuccess(after)) {
+			expect(after.value.map((todo) => todo.id)).toEqual(["3"])
+		}
+
+		unsubscribe()
+	})
+
+	it("should keep the previous data while the new query loads", async () => {
+		const registry = Registry.make()
+		const { collection: readyCollection } = createMockSyncCollection("todos", initialTodos, (todo) => todo.id)
+
+		let markReady: () => void
+		const config: any = {
+			id: "archived-todos",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: (params: any) => {
+					markReady = () => {
+						params.begin()
+						params.write({ type: "insert", value: { id: "9", title: "Archived", completed: true, userId: "user1" } })
+						params.commit()
+						params.markReady()
+					}
+				},
+			},
+			startSync: true,
+		}
+		const loadingCollection = createCollection<Todo>(config)
+
+		await waitForReady(readyCollection)
+
+		const sourceAtom = Atom.make<Collection<Todo, string | number, any>>(readyCollection)
+		const todosAtom = makeReactiveQuery((q, get) => q.from({ todos: get(sourceAtom) }))
+
+		const unsubscribe = registry.subscribe(todosAtom, () => {})
+		const before = registry.get(todosAtom)
+		expect(Result.isSuccess(before)).toBe(true)
+
+		registry.set(sourceAtom, loadingCollection)
+
+		const loading = registry.get(todosAtom)
+		expect(Result.isSuccess(loading)).toBe(true)
+		expect(loading.waiting).toBe(true)
+		if (Result.isSuccess(loading) && Result.isSuccess(before)) {
+			expect(loading.value).toBe(before.value)
+		}
+
+		markReady!()
+		await new Promise((resolve) => setTimeout(resolve, 10))
+
+		const after = registry.get(todosAtom)
+		expect(Result.isSuccess(after)).toBe(true)
+		expect(after.waiting).toBe(false)
+		if (Result.isSuccess(after)) {
+			expect(after.value.map((todo) => todo.id)).toEqual(["9"])
+		}
+
+		unsubscribe()
+	})
+
+	it("should dispose the previous live query collection", async () => {
+		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection("todos", initialTodos, (todo) => todo.id)
+		const { collection: archivedCollection } = createMockSyncCollection(
+			"archived-todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
+
+		await waitForReady(todosCollection)
+		await waitForReady(archivedCollection)
+
+		const sourceAtom = Atom.make<Collection<Todo, string | number, any>>(todosCollection)
+		const listAtom = makeReactiveQuery((q, get) => q.from({ todos: get(sourceAtom) }))
+
+		const unsubscribe = registry.subscribe(listAtom, () => {})
+		registry.get(listAtom)
+		expect(todosCollection.subscriberCount).toBe(1)
+
+		registry.set(sourceAtom, archivedCollection)
+		registry.get(listAtom)
+
+		expect(todosCollection.subscriberCount).toBe(0)
+		expect(archivedCollection.subscriberCount).toBe(1)
+
+		unsubscribe()
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		expect(archivedCollection.subscriberCount).toBe(0)
+	})
+
+	it("should fail with QueryCompileError when the query function throws", () => {
+		const registry = Registry.make()
+		const failingAtom = makeReactiveQuery((): any => {
+			throw new Error("No route params")
+		})
+
+		const result = registry.get(failingAtom)
+		expect(Result.isFailure(result)).toBe(true)
+		const error = Option.getOrThrow(Result.error(result))
+		expect(error).toBeInstanceOf(QueryCompileError)
+	})
+})
+
 describe("makeQueryUnsafe", () => {
 	it("should return unwrapped value instead of Result", async () => {
 		const registry = Registry.make()
@@ -469,7 +603,7 @@ describe("makeQueryUnsafe", () => {
 })
 
 describe("makeQueryConditional", () => {
-	it("should return undefined when query function returns null", () => {
+	it("should be disabled when query function returns null", () => {
 		const registry = Registry.make()
 
 		const conditionalAtom = makeQueryConditional(() => {
@@ -479,10 +613,10 @@ describe("makeQueryConditional", () => {
 
 		const result = registry.get(conditionalAtom)
 
-		expect(result).toBeUndefined()
+		expect(result).toEqual(Result.initial())
 	})
 
-	it("should return undefined when query function returns undefined", () => {
+	it("should be disabled when query function returns undefined", () => {
 		const registry = Registry.make()
 
 		const conditionalAtom = makeQueryConditional(() => {
@@ -492,36 +626,85 @@ describe("makeQueryConditional", () => {
 
 		const result = registry.get(conditionalAtom)
 
-		expect(result).toBeUndefined()
+		expect(result).toEqual(Result.initial())
 	})
 
-	it("should work with simple conditional logic", () => {
+	it("should call the query function once per evaluation", async () => {
 		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection(
+			"todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
 
-		// Test conditional that returns null
-		let shouldQuery = false
+		await waitForReady(todosCollection)
 
-		const conditionalAtomNull = makeQueryConditional(() => {
-			if (!shouldQuery) return null
-			// This won't be reached
-			return undefined as any
+		let calls = 0
+		const conditionalAtom = makeQueryConditional((q) => {
+			calls++
+			return q.from({ todos: todosCollection })
 		})
 
-		const resultNull = registry.get(conditionalAtomNull)
-		expect(resultNull).toBeUndefined()
+		const result = registry.get(conditionalAtom)
+
+		expect(calls).toBe(1)
+		expect(Result.isSuccess(result)).toBe(true)
+	})
 
-		// Test conditional that would query (when condition is true)
-		shouldQuery = true
+	it("should toggle between disabled and enabled from atom reads", async () => {
+		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection(
+			"todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
 
-		const conditionalAtomActive = makeQueryConditional(() => {
-			if (!shouldQuery) return null
-			// Return undefined when active (simulating a query builder pattern issue)
-			return undefined as any
+		await waitForReady(todosCollection)
+
+		const userIdAtom = Atom.make<string | undefined>(undefined)
+		const userTodosAtom = makeQueryConditional((q, get) => {
+			const userId = get(userIdAtom)
+			if (userId === undefined) return null
+
+			return q.from({ todos: todosCollection }).where(({ todos }) => eq(todos.userId, userId))
 		})
 
-		const resultActive = registry.get(conditionalAtomActive)
-		// When returning undefined, it should also be undefined
-		expect(resultActive).toBeUndefined()
+		const unsubscribe = registry.subscribe(userTodosAtom, () => {})
+		expect(registry.get(userTodosAtom)).toEqual(Result.initial())
+
+		registry.set(userIdAtom, "user2")
+
+		const enabled = registry.get(userTodosAtom)
+		expect(Option.getOrThrow(Result.value(enabled)).map((todo) => todo.id)).toEqual(["3"])
+		expect(todosCollection.subscriberCount).toBe(1)
+
+		// Disabling disposes the live query collection
+		registry.set(userIdAtom, undefined)
+
+		// The disabled query is not waiting and does not keep the previous data
+		expect(registry.get(userTodosAtom)).toEqual(Result.initial())
+		expect(todosCollection.subscriberCount).toBe(0)
+
+		unsubscribe()
+	})
+
+	it("should emit its rows in the requested shape", async () => {
+		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection(
+			"todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
+
+		await waitForReady(todosCollection)
+
+		const todosById = makeQueryConditional((q) => q.from({ todos: todosCollection }), { shape: "map" })
+		const unsubscribe = registry.subscribe(todosById, () => {})
+
+		const byId = Option.getOrThrow(Result.value(registry.get(todosById)))
+		expect(byId.get("3")?.userId).toBe("user2")
+
+		unsubscribe()
 	})
 })
 
@@ -669,6 +852,55 @@ describe("Error handling and edge cases", () => {
 		})
 
 		const result = registry.get(conditionalAtom)
-		expect(result).toBeUndefined()
+		expect(result).toEqual(Result.initial())
+	})
+
+	it("should fail with a CollectionLoadError carrying the sync error", () => {
+		const registry = Registry.make()
+		const syncError = new Error("Network unreachable")
+		const config: any = {
+			id: "failing-collection",
+			getKey: (todo: Todo) => todo.id,
+			sync: {
+				sync: () => {
+					throw syncError
+				},
+			},
+			startSync: false,
+		}
+
+		const collection = createCollection(config)
+		const todosAtom = makeCollectionAtom(collection)
+		const result = registry.get(todosAtom)
+
+		expect(Result.isFailure(result)).toBe(true)
+		const error = Option.getOrThrow(Result.error(result))
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		expect(error._tag).toBe("CollectionLoadError")
+		if (error._tag === "CollectionLoadError") {
+			expect(error.collectionId).toBe("failing-collection")
+			expect(error.status).toBe("error")
+			expect(error.cause).toBe(syncError)
+		}
+	})
+
+	it("should fail with a QueryCompileError when the query cannot be compiled", async () => {
+		const registry = Registry.make()
+		const { collection: todosCollection } = createMockSyncCollection(
+			"todos",
+			initialTodos,
+			(todo) => todo.id,
+		)
+
+		await waitForReady(todosCollection)
+
+		// limit requires orderBy
+		const invalidAtom = makeQuery((q) => q.from({ todos: todosCollection }).limit(1))
+		const result = registry.get(invalidAtom)
+
+		expect(Result.isFailure(result)).toBe(true)
+		const error = Option.getOrThrow(Result.error(result))
+		expect(error).toBeInstanceOf(QueryCompileError)
+		expect(error.cause).toBeInstanceOf(Error)
 	})
 })
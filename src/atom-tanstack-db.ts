@@ -4,81 +4,617 @@
  * @since 1.0.0
  */
 
-import { Atom, Result } from "@effect-atom/atom-react"
+import { Atom, type Registry, Result } from "@effect-atom/atom-react"
 import {
+	type BaseQueryBuilder,
+	type ChangeMessage,
+	type ChangeMessageOrDeleteKeyMessage,
 	type Collection,
+	type CollectionConfig,
 	type Context,
+	count,
 	createLiveQueryCollection,
+	createTransaction,
 	type GetResult,
 	type InferResultType,
-	type InitialQueryBuilder,
+	IR,
+	type MutationFn,
 	type NonSingleResult,
+	Query,
 	type QueryBuilder,
 	type SingleResult,
+	type Transaction,
 } from "@tanstack/db"
-import { constUndefined } from "effect/Function"
-import type { CollectionStatus, ConditionalQueryFn, QueryFn, QueryOptions } from "./types"
+import * as Arr from "effect/Array"
+import * as Cause from "effect/Cause"
+import * as Data from "effect/Data"
+import * as Deferred from "effect/Deferred"
+import * as Effect from "effect/Effect"
+import * as Either from "effect/Either"
+import * as Equal from "effect/Equal"
+import * as Exit from "effect/Exit"
+import * as Fiber from "effect/Fiber"
+import * as HashMap from "effect/HashMap"
+import { constUndefined, constVoid, identity } from "effect/Function"
+import * as Option from "effect/Option"
+import * as ParseResult from "effect/ParseResult"
+import * as Runtime from "effect/Runtime"
+import * as Schedule from "effect/Schedule"
+import * as Schema from "effect/Schema"
+import type * as Scope from "effect/Scope"
+import * as Stream from "effect/Stream"
+import type * as StreamEmit from "effect/StreamEmit"
+import * as Utils from "effect/Utils"
+import { failSync, syncErrors } from "./internal"
+import {
+	type ChangeEvent,
+	type CollectionAtomOptions,
+	CollectionCleanedUpError,
+	CollectionLoadError,
+	type CollectionMutations,
+	type CollectionStatus,
+	type CollectionStatusInfo,
+	type AggregateValues,
+	type ConditionalQueryFn,
+	type DbAtomChangeBatch,
+	type DbAtomDiagnostics,
+	type DbAtomDiagnosticsEvent,
+	type DbAtomDiagnosticsOptions,
+	type DbAtomStatusChange,
+	type DehydratedState,
+	type EffectCollectionConfig,
+	type EncodedMutationFn,
+	type IndexedRows,
+	type InfiniteQuery,
+	type InfiniteQueryData,
+	type InfiniteQueryOptions,
+	MutationRejectedError,
+	type PreloadOptions,
+	QueryCompileError,
+	type QueryFn,
+	type QueryOptions,
+	type QueryRefs,
+	type ReactiveQueryFn,
+	type RefValue,
+	type ResultShape,
+	type RuntimeCollectionAtomOptions,
+	type RuntimeQueryFn,
+	type RuntimeQueryOptions,
+	RowDecodeError,
+	type ShapedResult,
+	type SyncControl,
+	type SyncControlStatus,
+	type TanStackDBError,
+	type TransactionAtoms,
+	type TransactionSnapshot,
+	type UnsubscribeFn,
+	type UpdateMutation,
+} from "./types"
 
 /**
- * Creates an Atom from a TanStack DB collection
- * Returns a Result that tracks the collection's lifecycle state
+ * Error of a collection in the `error` status, caused by its sync failure
  */
-export const makeCollectionAtom = <T extends object, TKey extends string | number>(
-	collection: Collection<T, TKey, any> & NonSingleResult,
-): Atom.Atom<Result.Result<Array<T>, Error>> => {
-	return Atom.readable((get) => {
-		// Start sync if not already started
+const syncFailure = (
+	collection: Collection<any, any, any>,
+	label: "Collection" | "Query",
+): CollectionLoadError | RowDecodeError => {
+	const cause = syncErrors.get(collection)
+	if (ParseResult.isParseError(cause)) {
+		return new RowDecodeError({ message: "Collection row failed to decode", collectionId: collection.id, cause })
+	}
+	return new CollectionLoadError({
+		message: `${label} failed to load`,
+		collectionId: collection.id,
+		status: "error",
+		cause,
+	})
+}
+
+/**
+ * Maps a collection's status to a Result, reading the data only once it is ready
+ */
+const statusToResult = <A>(
+	collection: Collection<any, any, any>,
+	label: "Collection" | "Query",
+	read: () => A,
+): Result.Result<A, TanStackDBError> => {
+	const status: CollectionStatus = collection.status
+
+	if (status === "error") {
+		return Result.fail(syncFailure(collection, label))
+	}
+
+	if (status === "idle") {
+		return Result.initial()
+	}
+
+	if (status === "loading") {
+		return Result.initial(true)
+	}
+
+	if (status === "cleaned-up") {
+		return Result.fail(
+			new CollectionCleanedUpError({
+				message: label === "Query" ? "Query collection has been cleaned up" : "Collection has been cleaned up",
+				collectionId: collection.id,
+			}),
+		)
+	}
+
+	return Result.success(read())
+}
+
+/**
+ * Starts sync, capturing a synchronous sync failure as the cause of the error status
+ */
+const startSync = (collection: Collection<any, any, any>): void => {
+	try {
 		collection.startSyncImmediate()
+	} catch (error) {
+		syncErrors.set(collection, error)
+	}
+}
 
-		// Set up subscription immediately, before checking initial status
-		// This ensures we get notified when async sync completes
-		const subscription = collection.subscribeChanges(() => {
-			const status: CollectionStatus = collection.status
+/**
+ * Syncs a failed collection again; TanStack DB only leaves the error status through a cleanup
+ */
+const resyncFailed = (collection: Collection<any, any, any>): void => {
+	if (collection.status === "error") {
+		void collection.cleanup()
+		startSync(collection)
+	}
+}
 
-			if (status === "error") {
-				get.setSelf(Result.fail(new Error("Collection failed to load")))
-				return
+/**
+ * Whether an atom is computed again after it failed, e.g. because it was refreshed or retried
+ */
+const isRetry = (get: Atom.Context): boolean =>
+	Option.exists(get.self<unknown>(), (previous) => Result.isResult(previous) && Result.isFailure(previous))
+
+/**
+ * Source collections read by a query, including those of its subqueries and joins
+ */
+const sourceCollections = (ir: IR.QueryIR): Array<Collection<any, any, any>> =>
+	[ir.from, ...(ir.join ?? []).map((join) => join.from)].flatMap((source) =>
+		source.type === "collectionRef" ? [source.collection] : sourceCollections(source.query),
+	)
+
+/**
+ * Compares keys the way TanStack DB orders them: strings before numbers, then natural order
+ */
+const compareKeys = (a: string | number, b: string | number): number => {
+	if (typeof a === typeof b) {
+		return a < b ? -1 : a > b ? 1 : 0
+	}
+	return typeof a === "string" ? -1 : 1
+}
+
+/**
+ * Rows of a collection maintained from its change messages instead of re-reading every entry
+ * Unchanged rows keep their reference and the array is only replaced when a row changes
+ */
+interface RowsView<T extends object> {
+	readonly read: () => Array<T>
+	readonly takeEdits: () => ReadonlyArray<RowEdit<T>> | undefined
+	readonly apply: (changes: ReadonlyArray<ChangeMessage<T>>) => void
+	readonly reset: () => void
+}
+
+/**
+ * A row inserted, updated in place or deleted at a position of the maintained rows, in the order applied
+ * A moved row is deleted and inserted again, and a delete carries the deleted row
+ */
+interface RowEdit<T> {
+	readonly type: "insert" | "update" | "delete"
+	readonly position: number
+	readonly value: T
+}
+
+/**
+ * Changed rows are located by binary search on their previous value
+ * A batch changing rows copies the array once, so previously emitted arrays are never mutated
+ * The edits since the last take let selectors update what they built instead of rebuilding it,
+ * and are undefined when the rows were read again from the collection
+ * Optimistic upserts follow the synced rows in the order they were made, and optimistic updates keep their synced
+ * position, so the rows are read again for every batch while optimistic rows are or were part of them
+ */
+const makeRowsView = <T extends object>(collection: Collection<T, any, any>): RowsView<T> => {
+	const compare = collection.config.compare
+	let rows: Array<T> | undefined
+	let keys: Array<string | number> = []
+	let edits: Array<RowEdit<T>> | undefined
+	let optimistic = false
+
+	const hasOptimisticRows = () => collection._state.optimisticUpserts.size > 0
+
+	// Same ordering as the collection's sorted state: by value when it has a comparator, then by key
+	const order = (aKey: string | number, aValue: T, bKey: string | number, bValue: T): number =>
+		(compare === undefined ? 0 : compare(aValue, bValue)) || compareKeys(aKey, bKey)
+
+	const insertionPoint = (target: Array<T>, key: string | number, value: T): number => {
+		let low = 0
+		let high = target.length
+		while (low < high) {
+			const mid = (low + high) >>> 1
+			if (order(keys[mid]!, target[mid]!, key, value) < 0) {
+				low = mid + 1
+			} else {
+				high = mid
 			}
+		}
+		return low
+	}
 
-			if (status === "loading" || status === "idle") {
-				get.setSelf(Result.initial(true))
+	const find = (target: Array<T>, key: string | number, value: T): number | undefined => {
+		const point = insertionPoint(target, key, value)
+		return keys[point] === key ? point : undefined
+	}
+
+	// Falls back to a scan when the change does not carry the row's previous value
+	const positionOf = (target: Array<T>, key: string | number, previous: T | undefined): number | undefined => {
+		const position = previous === undefined ? undefined : find(target, key, previous)
+		if (position !== undefined) {
+			return position
+		}
+		const scanned = keys.indexOf(key)
+		return scanned === -1 ? undefined : scanned
+	}
+
+	const isInOrder = (target: Array<T>, position: number, value: T): boolean => {
+		const key = keys[position]!
+		return (
+			(position === 0 || order(keys[position - 1]!, target[position - 1]!, key, value) < 0) &&
+			(position === target.length - 1 || order(key, value, keys[position + 1]!, target[position + 1]!) < 0)
+		)
+	}
+
+	return {
+		read: () => {
+			if (rows === undefined) {
+				rows = []
+				keys = []
+				for (const [key, value] of collection.entries()) {
+					keys.push(key)
+					rows.push(value)
+				}
+				edits = undefined
+				optimistic = hasOptimisticRows()
+			}
+			return rows
+		},
+		takeEdits: () => {
+			const taken = edits
+			edits = []
+			return taken
+		},
+		apply: (changes) => {
+			if (rows === undefined) {
 				return
 			}
-
-			if (status === "cleaned-up") {
-				get.setSelf(Result.fail(new Error("Collection has been cleaned up")))
+			if (optimistic || hasOptimisticRows()) {
+				rows = undefined
+				edits = undefined
 				return
 			}
 
-			const newData = Array.from(collection.entries()).map(([_, value]) => value)
-			get.setSelf(Result.success(newData))
-		})
+			// Copy on first write so previously emitted arrays are never mutated
+			let next: Array<T> | undefined
+			const write = () => (next ??= rows!.slice())
 
-		// Cleanup on unmount
-		get.addFinalizer(() => {
-			subscription.unsubscribe()
-		})
+			for (const change of changes) {
+				const target = next ?? rows
+				// Deletes carry the deleted row as their value
+				const previous = change.type === "delete" ? change.value : change.previousValue
+				// An insert is only looked up by its own value, since scanning for every new row would be linear
+				const position =
+					change.type === "insert" ? find(target, change.key, change.value) : positionOf(target, change.key, previous)
 
-		// Return initial state based on current status
-		const status: CollectionStatus = collection.status
+				if (change.type === "delete") {
+					if (position !== undefined) {
+						edits?.push({ type: "delete", position, value: target[position]! })
+						write().splice(position, 1)
+						keys.splice(position, 1)
+					}
+					continue
+				}
 
-		if (status === "error") {
-			return Result.fail(new Error("Collection failed to load"))
-		}
+				if (position !== undefined) {
+					if (target[position] === change.value) {
+						continue
+					}
+					if (isInOrder(target, position, change.value)) {
+						edits?.push({ type: "update", position, value: change.value })
+						write()[position] = change.value
+						continue
+					}
+					// The update moved the row, so take it out and insert it again below
+					edits?.push({ type: "delete", position, value: target[position]! })
+					write().splice(position, 1)
+					keys.splice(position, 1)
+				}
+
+				const point = insertionPoint(write(), change.key, change.value)
+				edits?.push({ type: "insert", position: point, value: change.value })
+				next!.splice(point, 0, change.value)
+				keys.splice(point, 0, change.key)
+			}
+
+			if (next !== undefined) {
+				rows = next
+			}
+
+			// TanStack DB can coalesce some synced changes away, so fall back to a full read
+			// whenever the maintained rows no longer match the collection
+			if (rows.length !== collection.size) {
+				rows = undefined
+				edits = undefined
+			}
+		},
+		reset: () => {
+			rows = undefined
+			keys = []
+			edits = undefined
+			optimistic = false
+		},
+	}
+}
+
+/**
+ * Sets the atom's Result unless it is a success holding the same value as before
+ * Returns whether the atom emitted, since the registry also skips Results equal to the previous one
+ */
+const setResult = <A, E>(get: Atom.Context, result: Result.Result<A, E>): boolean => {
+	const previous = get.self<Result.Result<A, E>>()
+	if (
+		Result.isSuccess(result) &&
+		Option.isSome(previous) &&
+		Result.isSuccess(previous.value) &&
+		!previous.value.waiting &&
+		previous.value.value === result.value
+	) {
+		return false
+	}
+	get.setSelf(result)
+	return Option.isNone(previous) || !Equal.equals(previous.value, result)
+}
+
+/**
+ * Keeps showing the atom's previous success as waiting while its collection is loading
+ */
+const keepPrevious = <A, E>(get: Atom.Context, result: Result.Result<A, E>): Result.Result<A, E> => {
+	if (!Result.isInitial(result)) {
+		return result
+	}
+	const previous = get.self<Result.Result<A, E>>()
+	return Option.isSome(previous) && Result.isSuccess(previous.value) ? Result.waiting(previous.value) : result
+}
+
+/**
+ * Query IR of live query collections, reported by the diagnostics
+ */
+const liveQueryIRs = new WeakMap<Collection<any, any, any>, IR.QueryIR>()
+
+/**
+ * Diagnostics of a mounted atom's subscription, kept while diagnostics are enabled
+ */
+interface DiagnosticsEntry {
+	readonly id: number
+	readonly kind: "Collection" | "Query"
+	readonly collection: Collection<any, any, any>
+	readonly mountedAt: number
+	readonly statusChanges: Array<DbAtomStatusChange>
+	readonly batches: Array<DbAtomChangeBatch>
+}
+
+interface DiagnosticsState {
+	readonly historySize: number
+	readonly onEvent: ((event: DbAtomDiagnosticsEvent) => void) | undefined
+	readonly entries: Map<number, DiagnosticsEntry>
+	nextId: number
+}
+
+let diagnostics: DiagnosticsState | undefined
 
-		if (status === "loading" || status === "idle") {
-			return Result.initial(true)
+const snapshotEntry = (entry: DiagnosticsEntry): DbAtomDiagnostics => ({
+	id: entry.id,
+	kind: entry.kind,
+	collectionId: entry.collection.id,
+	query: liveQueryIRs.get(entry.collection),
+	subscriberCount: entry.collection.subscriberCount,
+	status: entry.collection.status,
+	mountedAt: entry.mountedAt,
+	statusChanges: entry.statusChanges.slice(),
+	batches: entry.batches.slice(),
+})
+
+/**
+ * Appends to a bounded history, dropping the oldest records
+ */
+const pushBounded = <A>(history: Array<A>, value: A, historySize: number): void => {
+	history.push(value)
+	if (history.length > historySize) {
+		history.splice(0, history.length - historySize)
+	}
+}
+
+/**
+ * Records an atom's subscription to a collection, or returns undefined while diagnostics are disabled
+ */
+const traceSubscription = (collection: Collection<any, any, any>, kind: "Collection" | "Query") => {
+	const state = diagnostics
+	if (state === undefined) {
+		return undefined
+	}
+
+	const entry: DiagnosticsEntry = {
+		id: state.nextId++,
+		kind,
+		collection,
+		mountedAt: Date.now(),
+		statusChanges: [{ status: collection.status, at: Date.now() }],
+		batches: [],
+	}
+	state.entries.set(entry.id, entry)
+	state.onEvent?.({ _tag: "Mounted", atom: snapshotEntry(entry) })
+
+	// Subscriptions outlive the diagnostics they were traced with, which stop recording once disabled
+	return {
+		status: (status: CollectionStatus) => {
+			if (diagnostics !== state) return
+			const change = { status, at: Date.now() }
+			pushBounded(entry.statusChanges, change, state.historySize)
+			state.onEvent?.({ _tag: "StatusChanged", atom: snapshotEntry(entry), change })
+		},
+		batch: (size: number, emitted: boolean, duration: number) => {
+			if (diagnostics !== state) return
+			const batch = { size, emitted, duration, at: Date.now() }
+			pushBounded(entry.batches, batch, state.historySize)
+			state.onEvent?.({ _tag: "ChangeBatch", atom: snapshotEntry(entry), batch })
+		},
+		unmount: () => {
+			if (diagnostics !== state) return
+			state.entries.delete(entry.id)
+			state.onEvent?.({ _tag: "Unmounted", atom: snapshotEntry(entry) })
+		},
+	}
+}
+
+/**
+ * Subscribes an atom to a collection and returns its current Result
+ * Change batches are applied to the maintained rows, and the atom is only notified
+ * when the selected value or the collection status changed
+ */
+const subscribeCollection = <T extends object, A>(
+	get: Atom.Context,
+	collection: Collection<T, any, any>,
+	label: "Collection" | "Query",
+	select: (rows: Array<T>, edits: ReadonlyArray<RowEdit<T>> | undefined) => A,
+	keepPreviousData = false,
+): Result.Result<A, TanStackDBError> => {
+	const view = makeRowsView(collection)
+	const read = () => select(view.read(), view.takeEdits())
+	const toResult = () => {
+		const result = statusToResult(collection, label, read)
+		return keepPreviousData ? keepPrevious(get, result) : result
+	}
+
+	const trace = traceSubscription(collection, label)
+
+	// Set up subscription immediately, before checking initial status
+	// This ensures we get notified when async sync completes
+	// The rows are read on demand, so the subscription skips the initial state but receives every change
+	// unfiltered, with deletes and previous values of rows that were never sent to it
+	const subscription = collection.subscribeChanges(
+		(changes) => {
+			const start = performance.now()
+			if (collection.status === "ready") {
+				view.apply(changes)
+			} else {
+				view.reset()
+			}
+
+			const emitted = setResult(get, toResult())
+			trace?.batch(changes.length, emitted, performance.now() - start)
+		},
+		{ includeInitialState: false },
+	)
+
+	// Errors and cleanups are not delivered as change batches
+	const offStatus = collection.on("status:change", (event) => {
+		trace?.status(event.status)
+		if (event.status !== "ready") {
+			view.reset()
+			setResult(get, toResult())
 		}
+	})
+
+	// Cleanup on unmount
+	get.addFinalizer(() => {
+		subscription.unsubscribe()
+		offStatus()
+		trace?.unmount()
+	})
+
+	// Return initial state based on current status
+	return toResult()
+}
+
+/**
+ * State of a sync control; restarting bumps the generation so atoms subscribe again
+ */
+interface SyncControlState {
+	readonly status: SyncControlStatus
+	readonly generation: number
+}
+
+const syncControlStates = new WeakMap<SyncControl, Atom.Writable<SyncControlState>>()
 
-		if (status === "cleaned-up") {
-			return Result.fail(new Error("Collection has been cleaned up"))
+/**
+ * Reads an atom's sync control, so the atom is computed again when it is started, paused, resumed or restarted
+ * Objects not created by makeSyncControl have no state, and are treated as no sync control
+ */
+const readSyncControl = (
+	get: Atom.Context,
+	options: Pick<QueryOptions, "startSync" | "syncControl"> | undefined,
+): { readonly started: boolean; readonly paused: boolean; readonly generation: number } => {
+	const stateAtom = options?.syncControl === undefined ? undefined : syncControlStates.get(options.syncControl)
+	const state = stateAtom === undefined ? undefined : get(stateAtom)
+	return {
+		started: (options?.startSync ?? true) || state?.status === "syncing",
+		paused: state?.status === "paused",
+		generation: state?.generation ?? 0,
+	}
+}
+
+/**
+ * Result of a paused atom: its last Result, without a subscription
+ */
+const pausedResult = <A, E>(get: Atom.Context): Result.Result<A, E> =>
+	Option.getOrElse(get.self<Result.Result<A, E>>(), () => Result.initial())
+
+/**
+ * Subscribes a collection atom according to its sync options
+ * Atoms that do not start sync wait until the collection is started elsewhere, since subscribing would start it
+ */
+const subscribeControlledCollection = <T extends object, A>(
+	get: Atom.Context,
+	collection: Collection<T, any, any>,
+	options: CollectionAtomOptions | undefined,
+	select: (rows: Array<T>) => A,
+): Result.Result<A, TanStackDBError> => {
+	const sync = readSyncControl(get, options)
+	if (sync.paused) {
+		return pausedResult(get)
+	}
+
+	if (sync.started) {
+		if (isRetry(get)) {
+			resyncFailed(collection)
 		}
+		startSync(collection)
+	} else if (collection.status === "idle" || collection.status === "cleaned-up") {
+		const offStatus = collection.on("status:change", () => get.refreshSelf())
+		get.addFinalizer(offStatus)
+		return Result.initial()
+	}
 
-		// Get current data
-		const initialData = Array.from(collection.entries()).map(([_, value]) => value)
+	return subscribeCollection(get, collection, "Collection", select)
+}
 
-		return Result.success(initialData)
-	})
+const firstRow = <T>(rows: Array<T>): T | undefined => rows[0]
+
+/**
+ * Creates an Atom from a TanStack DB collection
+ * Returns a Result that tracks the collection's lifecycle state
+ */
+export const makeCollectionAtom = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any> & NonSingleResult,
+	options?: CollectionAtomOptions,
+): Atom.Atom<Result.Result<Array<T>, TanStackDBError>> => {
+	return withRetry(
+		Atom.readable((get) => subscribeControlledCollection(get, collection, options, identity)),
+		options?.retry,
+	)
 }
 
 /**
@@ -87,134 +623,576 @@ export const makeCollectionAtom = <T extends object, TKey extends string | numbe
  */
 export const makeSingleCollectionAtom = <T extends object, TKey extends string | number>(
 	collection: Collection<T, TKey, any> & SingleResult,
-): Atom.Atom<Result.Result<T | undefined, Error>> => {
-	return Atom.readable((get) => {
-		// Start sync if not already started
-		collection.startSyncImmediate()
+	options?: CollectionAtomOptions,
+): Atom.Atom<Result.Result<T | undefined, TanStackDBError>> => {
+	return withRetry(
+		Atom.readable((get) => subscribeControlledCollection(get, collection, options, firstRow)),
+		options?.retry,
+	)
+}
 
-		// Set up subscription immediately, before checking initial status
-		// This ensures we get notified when async sync completes
-		const subscription = collection.subscribeChanges(() => {
-			const status: CollectionStatus = collection.status
+/**
+ * Creates an Atom family reading single rows of a TanStack DB collection by key
+ * All row atoms share one collection subscription, and each is only notified
+ * when its own row or the collection status changes
+ */
+export const makeCollectionItemAtom = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): ((key: TKey) => Atom.Atom<Result.Result<T | undefined, TanStackDBError>>) => {
+	const listeners = new Map<TKey, Set<() => void>>()
+	let unsubscribe: UnsubscribeFn | undefined
+	let status: CollectionStatus = collection.status
 
-			if (status === "error") {
-				get.setSelf(Result.fail(new Error("Collection failed to load")))
-				return
+	const notify = (key: TKey) => {
+		for (const listener of listeners.get(key) ?? []) {
+			listener()
+		}
+	}
+
+	const notifyAll = () => {
+		for (const key of listeners.keys()) {
+			notify(key)
+		}
+	}
+
+	const listen = (key: TKey, listener: () => void): UnsubscribeFn => {
+		const keyListeners = listeners.get(key) ?? new Set()
+		keyListeners.add(listener)
+		listeners.set(key, keyListeners)
+
+		if (unsubscribe === undefined) {
+			status = collection.status
+			// Rows are read on demand, so skip the initial state but receive every later change
+			const subscription = collection.subscribeChanges(
+				(changes) => {
+					const previousStatus = status
+					status = collection.status
+
+					// Empty batches can hide coalesced changes, so every row re-reads its value
+					if (status !== previousStatus || changes.length === 0) {
+						notifyAll()
+						return
+					}
+
+					for (const change of changes) {
+						notify(change.key as TKey)
+					}
+				},
+				{ includeInitialState: false },
+			)
+			// Errors and cleanups are not delivered as change batches
+			const offStatus = collection.on("status:change", (event) => {
+				if (event.status !== "ready") {
+					status = event.status
+					notifyAll()
+				}
+			})
+			unsubscribe = () => {
+				subscription.unsubscribe()
+				offStatus()
 			}
+		}
 
-			if (status === "loading" || status === "idle") {
-				get.setSelf(Result.initial(true))
-				return
+		return () => {
+			keyListeners.delete(listener)
+			if (keyListeners.size === 0) {
+				listeners.delete(key)
 			}
+			if (listeners.size === 0) {
+				unsubscribe?.()
+				unsubscribe = undefined
+			}
+		}
+	}
 
-			if (status === "cleaned-up") {
-				get.setSelf(Result.fail(new Error("Collection has been cleaned up")))
-				return
+	return Atom.family((key: TKey) =>
+		Atom.readable((get) => {
+			// Start sync if not already started
+			startSync(collection)
+
+			const read = () => collection.get(key)
+
+			get.addFinalizer(
+				listen(key, () => {
+					setResult(get, statusToResult(collection, "Collection", read))
+				}),
+			)
+
+			return statusToResult(collection, "Collection", read)
+		}),
+	)
+}
+
+/**
+ * Creates an Atom tracking a TanStack DB collection's status and sync metadata
+ * It is notified on status changes and change batches, without maintaining the collection's rows
+ */
+export const makeCollectionStatusAtom = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): Atom.Atom<CollectionStatusInfo> =>
+	Atom.readable((get) => {
+		// Start sync if not already started
+		startSync(collection)
+
+		let lastChangeAt: number | undefined
+		let lastError: CollectionLoadError | RowDecodeError | undefined
+
+		const read = (): CollectionStatusInfo => {
+			const status: CollectionStatus = collection.status
+			if (status === "error" && lastError === undefined) {
+				lastError = syncFailure(collection, "Collection")
 			}
+			return Data.struct({ status, size: collection.size, lastChangeAt, lastError })
+		}
+
+		const update = () => {
+			const next = read()
+			if (!Option.exists(get.self<CollectionStatusInfo>(), Equal.equals(next))) {
+				get.setSelf(next)
+			}
+		}
 
-			const entries = Array.from(collection.entries())
-			const newData = entries.length > 0 ? entries[0]![1] : undefined
-			get.setSelf(Result.success(newData))
+		const offStatus = collection.on("status:change", (event) => {
+			// A new failure replaces the previous error
+			if (event.status === "error") {
+				lastError = undefined
+			}
+			update()
 		})
+		const subscription = collection.subscribeChanges(
+			(changes) => {
+				if (changes.length > 0) {
+					lastChangeAt = Date.now()
+				}
+				update()
+			},
+			{ includeInitialState: false },
+		)
 
-		// Cleanup on unmount
 		get.addFinalizer(() => {
 			subscription.unsubscribe()
+			offStatus()
 		})
 
-		// Return initial state based on current status
-		const status: CollectionStatus = collection.status
+		return read()
+	})
+
+/**
+ * Maps waiting results back to the initial state
+ * Atom.result() and React Suspense only suspend on initial results by default
+ */
+const suspendWhileWaiting = <A, E>(result: Result.Result<A, E>): Result.Result<A, E> =>
+	result.waiting && !Result.isInitial(result) ? Result.initial(true) : result
 
-		if (status === "error") {
-			return Result.fail(new Error("Collection failed to load"))
-		}
+/**
+ * Stable identities for collections, functions and other objects referenced by query IR
+ */
+const identities = new WeakMap<object, number>()
+let nextIdentity = 0
+
+const identityOf = (value: object): number => {
+	let id = identities.get(value)
+	if (id === undefined) {
+		id = nextIdentity++
+		identities.set(value, id)
+	}
+	return id
+}
 
-		if (status === "loading" || status === "idle") {
-			return Result.initial(true)
+/**
+ * Whether a value is compared structurally: plain objects, arrays and query IR nodes
+ */
+const isStructural = (value: object): boolean => {
+	if (Array.isArray(value)) return true
+	const prototype = Object.getPrototypeOf(value)
+	return (
+		prototype === Object.prototype ||
+		prototype === null ||
+		value instanceof IR.QueryRef ||
+		value instanceof IR.PropRef ||
+		value instanceof IR.Value ||
+		value instanceof IR.Func ||
+		value instanceof IR.Aggregate
+	)
+}
+
+/**
+ * Serializes query IR into a canonical string, with object keys sorted
+ * Collections, functions and other objects such as Maps, Sets and class instances are compared by identity,
+ * since their own properties do not describe them
+ */
+const stableKey = (value: unknown): string => {
+	if (value instanceof IR.CollectionRef) {
+		return `collection#${identityOf(value.collection)}:${JSON.stringify(value.alias)}`
+	}
+	if (typeof value === "function") {
+		return `function#${identityOf(value)}`
+	}
+	if (typeof value === "bigint") {
+		return `${value}n`
+	}
+	if (value === undefined || typeof value === "symbol") {
+		return String(value)
+	}
+	// JSON writes Infinity, -Infinity and NaN as null and -0 as 0
+	if (typeof value === "number") {
+		return `num:${Object.is(value, -0) ? "-0" : String(value)}`
+	}
+	if (value === null || typeof value !== "object") {
+		return JSON.stringify(value)
+	}
+	if (value instanceof Date) {
+		return `date:${value.toISOString()}`
+	}
+	if (!isStructural(value)) {
+		return `object#${identityOf(value)}`
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(stableKey).join(",")}]`
+	}
+	const entries = Object.keys(value)
+		.sort()
+		.map((key) => `${JSON.stringify(key)}:${stableKey((value as Record<string, unknown>)[key])}`)
+	return `{${entries.join(",")}}`
+}
+
+/**
+ * A live query collection shared by every atom whose query compiles to the same IR
+ */
+interface SharedLiveQuery {
+	readonly collection: Collection<any, any, any>
+	readonly gcTime: number
+	refCount: number
+	gcTimer: ReturnType<typeof setTimeout> | undefined
+}
+
+const liveQueries = new Map<string, SharedLiveQuery>()
+
+/**
+ * Returns the shared live query collection for a query, creating it on first use
+ * The collection is cleaned up once every holder released it and gcTime has elapsed
+ */
+const acquireLiveQuery = (
+	query: QueryBuilder<any>,
+	options: QueryOptions<ResultShape> | undefined,
+	generation = 0,
+): {
+	readonly collection: Collection<any, any, any>
+	readonly selectResult: (rows: Array<any>) => any
+	readonly release: UnsubscribeFn
+} => {
+	const startSync = options?.startSync ?? true
+	const gcTime = options?.gcTime ?? 0
+	const ir = (query as unknown as BaseQueryBuilder)._getQuery()
+	// A restarted sync control builds new live query collections instead of sharing the previous ones
+	const key = stableKey({ query: ir, startSync, gcTime, generation })
+
+	let shared = liveQueries.get(key)
+	// A failed live query collection does not recover, so the next holder gets a new one
+	if (shared === undefined || shared.collection.status === "error") {
+		shared = {
+			// TanStack DB never collects a gcTime of 0, so the reference count decides when to clean up
+			collection: createLiveQueryCollection({ query, startSync, gcTime: 0 }),
+			gcTime,
+			refCount: 0,
+			gcTimer: undefined,
 		}
+		liveQueries.set(key, shared)
+		liveQueryIRs.set(shared.collection, ir)
+	}
 
-		if (status === "cleaned-up") {
-			return Result.fail(new Error("Collection has been cleaned up"))
+	const entry = shared
+	clearTimeout(entry.gcTimer)
+	entry.gcTimer = undefined
+	entry.refCount++
+
+	const dispose = () => {
+		if (liveQueries.get(key) === entry) {
+			liveQueries.delete(key)
 		}
+		void entry.collection.cleanup()
+	}
 
-		// Get current data (single result)
-		const entries = Array.from(collection.entries())
-		const initialData = entries.length > 0 ? entries[0]![1] : undefined
+	const release = () => {
+		entry.refCount--
+		if (entry.refCount > 0) return
+		if (entry.gcTime === 0) {
+			dispose()
+		} else {
+			entry.gcTimer = setTimeout(dispose, entry.gcTime)
+		}
+	}
 
-		return Result.success(initialData)
-	})
+	// findOne queries result in their first row instead of an array
+	return { collection: entry.collection, selectResult: ir.singleResult === true ? firstRow : identity, release }
 }
 
 /**
- * Creates an Atom from a TanStack DB query function
- * Automatically creates a live query collection and manages its lifecycle
+ * Selects a query's rows in the requested shape, keyed by `getKey` or the live query collection's row keys
+ * The shape is updated from the edits since the last emission, so unchanged rows emit the same value
  */
-export const makeQuery = <TContext extends Context>(
-	queryFn: QueryFn<TContext>,
-	options?: QueryOptions,
-): Atom.Atom<Result.Result<InferResultType<TContext>, Error>> => {
-	return Atom.readable((get) => {
-		// Create live query collection
-		const collection = createLiveQueryCollection({
-			query: queryFn,
-			startSync: options?.startSync ?? true,
-			gcTime: options?.gcTime ?? 0, // Let atom lifecycle manage GC by default
-		})
+const shapeRows = (
+	liveQuery: ReturnType<typeof acquireLiveQuery>,
+	options: QueryOptions<ResultShape> | undefined,
+): ((rows: Array<any>, edits: ReadonlyArray<RowEdit<any>> | undefined) => any) => {
+	const shape = options?.shape
+	// findOne queries keep their single row
+	if (shape === undefined || shape === "array" || liveQuery.selectResult === firstRow) {
+		return liveQuery.selectResult
+	}
 
-		// Set up subscription immediately, before checking initial status
-		// This ensures we get notified when async sync completes
-		const subscription = collection.subscribeChanges(() => {
-			const status: CollectionStatus = collection.status
+	const keyOf = options?.getKey ?? ((row: any): string | number => liveQuery.collection.getKeyFromItem(row))
+	const build = (rows: Array<any>): unknown => {
+		switch (shape) {
+			case "map":
+				return new Map(rows.map((row) => [keyOf(row), row]))
+			case "hashMap":
+				return HashMap.fromIterable(rows.map((row) => [keyOf(row), row] as const))
+			case "indexed":
+				return { rows, index: new Map(rows.map((row, position) => [keyOf(row), position])) } satisfies IndexedRows<any>
+		}
+	}
 
-			if (status === "error") {
-				get.setSelf(Result.fail(new Error("Query failed to load")))
-				return
+	const update = (previous: unknown, rows: Array<any>, edits: ReadonlyArray<RowEdit<any>>): unknown => {
+		switch (shape) {
+			case "map": {
+				// Maps iterate in insertion order, so only deletes, in-place updates and appends keep the query's order
+				const map = new Map(previous as ReadonlyMap<string | number, any>)
+				for (const edit of edits) {
+					if (edit.type === "delete") {
+						map.delete(keyOf(edit.value))
+					} else if (edit.type === "update" || edit.position === map.size) {
+						map.set(keyOf(edit.value), edit.value)
+					} else {
+						return build(rows)
+					}
+				}
+				return map
 			}
-
-			if (status === "loading" || status === "idle") {
-				get.setSelf(Result.initial(true))
-				return
+			case "hashMap":
+				return HashMap.mutate(previous as HashMap.HashMap<string | number, any>, (map) => {
+					for (const edit of edits) {
+						if (edit.type === "delete") {
+							HashMap.remove(map, keyOf(edit.value))
+						} else {
+							HashMap.set(map, keyOf(edit.value), edit.value)
+						}
+					}
+				})
+			case "indexed": {
+				// In-place updates keep every position, and other edits only shift the rows after them
+				const previousIndex = (previous as IndexedRows<any>).index
+				if (edits.every((edit) => edit.type === "update")) {
+					return { rows, index: previousIndex } satisfies IndexedRows<any>
+				}
+				const index = new Map(previousIndex)
+				let first = rows.length
+				for (const edit of edits) {
+					if (edit.type !== "update") {
+						first = Math.min(first, edit.position)
+					}
+					if (edit.type === "delete") {
+						index.delete(keyOf(edit.value))
+					}
+				}
+				for (let position = first; position < rows.length; position++) {
+					index.set(keyOf(rows[position]), position)
+				}
+				return { rows, index } satisfies IndexedRows<any>
 			}
+		}
+	}
 
-			if (status === "cleaned-up") {
-				get.setSelf(Result.fail(new Error("Query collection has been cleaned up")))
-				return
+	let built: { readonly rows: Array<any>; readonly value: unknown } | undefined
+	return (rows, edits) => {
+		if (built?.rows !== rows) {
+			const value = built === undefined || edits === undefined ? build(rows) : update(built.value, rows, edits)
+			built = { rows, value }
+		}
+		return built.value
+	}
+}
+
+/**
+ * Subscribes an atom to the shared live query collection for a query
+ * The result is the query's rows (or first row for findOne queries) unless a `select` is given,
+ * which also receives the live query collection to read the rows' keys
+ */
+const subscribeLiveQuery = <TContext extends Context, A = InferResultType<TContext>>(
+	get: Atom.Context,
+	query: QueryFn<TContext> | QueryBuilder<TContext>,
+	options: QueryOptions<ResultShape> | undefined,
+	keepPreviousData: boolean,
+	select?: (rows: Array<GetResult<TContext>>, collection: Collection<any, any, any>) => A,
+): Result.Result<A, TanStackDBError> => {
+	const sync = readSyncControl(get, options)
+	if (sync.paused) {
+		return pausedResult(get)
+	}
+	// The live query collection is private to the atom, so only its sync control can start it
+	if (!sync.started) {
+		return Result.initial()
+	}
+
+	// Build the query and look up its live query collection, surfacing builder and compiler errors as a failure
+	let builder: QueryBuilder<TContext>
+	let sources: Array<Collection<any, any, any>>
+	try {
+		builder = typeof query === "function" ? query(new Query()) : query
+		sources = sourceCollections((builder as unknown as BaseQueryBuilder)._getQuery())
+	} catch (cause) {
+		return Result.fail(new QueryCompileError({ message: "Query failed to compile", cause }))
+	}
+
+	if (isRetry(get)) {
+		sources.forEach(resyncFailed)
+	}
+	// A live query collection created over a failed collection never loads, so the failure is reported instead
+	const failedSource = sources.find((source) => source.status === "error")
+	if (failedSource !== undefined) {
+		get.addFinalizer(failedSource.on("status:change", () => get.refreshSelf()))
+		return Result.fail(syncFailure(failedSource, "Query"))
+	}
+
+	let liveQuery: ReturnType<typeof acquireLiveQuery>
+	try {
+		liveQuery = acquireLiveQuery(builder, options, sync.generation)
+	} catch (cause) {
+		return Result.fail(new QueryCompileError({ message: "Query failed to compile", cause }))
+	}
+
+	// Registered before subscribing, so the subscription is removed before the collection is released
+	get.addFinalizer(liveQuery.release)
+
+	return subscribeCollection(
+		get,
+		liveQuery.collection,
+		"Query",
+		select === undefined ? shapeRows(liveQuery, options) : (rows) => select(rows, liveQuery.collection),
+		keepPreviousData,
+	)
+}
+
+/**
+ * Retries a failed atom on a schedule, emitting its failure as waiting until the schedule is exhausted
+ * The schedule's state is kept per registry, and reset once the atom succeeds
+ */
+const withRetry = <A, E>(
+	atom: Atom.Atom<Result.Result<A, E>>,
+	schedule: Schedule.Schedule<unknown, E> | undefined,
+): Atom.Atom<Result.Result<A, E>> => {
+	if (schedule === undefined) {
+		return atom
+	}
+	const drivers = new WeakMap<Registry.Registry, Schedule.ScheduleDriver<unknown, E, never>>()
+
+	return Atom.readable(
+		(get) => {
+			const result = get(atom)
+			let driver = drivers.get(get.registry)
+			if (driver === undefined) {
+				driver = Effect.runSync(Schedule.driver(schedule))
+				drivers.set(get.registry, driver)
 			}
 
-			// Get current data - handle both single and array results
-			const isSingleResult = (collection as any).config?.singleResult === true
-			const entries = Array.from(collection.entries()).map(([_, value]) => value)
-			const newData = (isSingleResult ? entries[0] : entries) as InferResultType<TContext>
-			get.setSelf(Result.success(newData))
-		})
+			if (Result.isSuccess(result) && !result.waiting) {
+				Effect.runSync(driver.reset)
+			}
+			if (!Result.isFailure(result) || Option.isNone(Result.error(result))) {
+				return result
+			}
 
-		// Cleanup on unmount
-		get.addFinalizer(() => {
-			subscription.unsubscribe()
-		})
+			// Refreshing the atom syncs its failed collections again
+			const fiber = Effect.runFork(driver.next(Option.getOrThrow(Result.error(result))))
+			const exhausted = fiber.unsafePoll()
+			if (exhausted !== null && Exit.isFailure(exhausted)) {
+				return result
+			}
+			let recomputed = false
+			fiber.addObserver((exit) => {
+				if (Exit.isSuccess(exit)) {
+					get.refresh(atom)
+					// Failures are equal whatever their cause, so failing again does not recompute this atom by itself
+					if (!recomputed) {
+						get.refreshSelf()
+					}
+				}
+			})
+			get.addFinalizer(() => {
+				recomputed = true
+				Effect.runFork(Fiber.interrupt(fiber))
+			})
+			return Result.waiting(result)
+		},
+		(refresh) => refresh(atom),
+	)
+}
 
-		// Return initial state based on current status
-		const status: CollectionStatus = collection.status
+/**
+ * Creates an atom retrying a query or collection atom when written
+ * Failed collections are synced again, and query atoms build a new live query collection
+ */
+export const makeRetryAtom = <A, E>(atom: Atom.Atom<Result.Result<A, E>>): Atom.AtomResultFn<void, void> =>
+	Atom.fn((_: void, get) => Effect.sync(() => get.refresh(atom)))
 
-		if (status === "error") {
-			return Result.fail(new Error("Query failed to load"))
-		}
+/**
+ * Creates an Atom from a TanStack DB query function
+ * Automatically creates a live query collection and manages its lifecycle
+ */
+export const makeQuery = <
+	TContext extends Context,
+	TShape extends ResultShape = "array",
+	TKey extends string | number = string | number,
+>(
+	queryFn: QueryFn<TContext>,
+	options?: QueryOptions<TShape, GetResult<TContext>, TKey>,
+): Atom.Atom<Result.Result<ShapedResult<TContext, TShape, TKey>, TanStackDBError>> => {
+	const queryAtom = withRetry(
+		Atom.readable((get) =>
+			subscribeLiveQuery<TContext, ShapedResult<TContext, TShape, TKey>>(
+				get,
+				queryFn,
+				options,
+				options?.keepPreviousData ?? false,
+			),
+		),
+		options?.retry,
+	)
 
-		if (status === "loading" || status === "idle") {
-			return Result.initial(true)
-		}
+	return options?.suspendOnWaiting ? Atom.map(queryAtom, suspendWhileWaiting) : queryAtom
+}
 
-		if (status === "cleaned-up") {
-			return Result.fail(new Error("Query collection has been cleaned up"))
+/**
+ * Creates an Atom from a TanStack DB query function that reads other atoms
+ * The live query is re-created when its dependencies change, keeping the last data while it loads
+ */
+export const makeReactiveQuery = <
+	TContext extends Context,
+	TShape extends ResultShape = "array",
+	TKey extends string | number = string | number,
+>(
+	queryFn: ReactiveQueryFn<TContext>,
+	options?: QueryOptions<TShape, GetResult<TContext>, TKey>,
+): Atom.Atom<Result.Result<ShapedResult<TContext, TShape, TKey>, TanStackDBError>> => {
+	const queryAtom = Atom.readable((get) => {
+		// Build the query here so dependency reads are tracked by this atom
+		let query: QueryBuilder<TContext>
+		try {
+			query = queryFn(new Query(), get)
+		} catch (cause) {
+			return Result.fail(new QueryCompileError({ message: "Query failed to compile", cause }))
 		}
 
-		// Get current data - handle both single and array results
-		const isSingleResult = (collection as any).config?.singleResult === true
-		const entries = Array.from(collection.entries()).map(([_, value]) => value)
-		const initialData = (isSingleResult ? entries[0] : entries) as InferResultType<TContext>
-
-		return Result.success(initialData)
+		return subscribeLiveQuery<TContext, ShapedResult<TContext, TShape, TKey>>(
+			get,
+			query,
+			options,
+			options?.keepPreviousData ?? true,
+		)
 	})
+
+	const retryingAtom = withRetry(queryAtom, options?.retry)
+	return options?.suspendOnWaiting ? Atom.map(retryingAtom, suspendWhileWaiting) : retryingAtom
 }
 
 /**
@@ -233,37 +1211,867 @@ export const makeQueryUnsafe = <TContext extends Context>(
 
 /**
  * Creates an Atom from a conditional TanStack DB query function
- * The query function can return null/undefined to disable the query
+ * The query is disabled (`Result.initial()`, not waiting) while the query function returns null/undefined,
+ * and the function can read other atoms to toggle it
  */
-export const makeQueryConditional = <TContext extends Context>(
+export const makeQueryConditional = <
+	TContext extends Context,
+	TShape extends ResultShape = "array",
+	TKey extends string | number = string | number,
+>(
 	queryFn: ConditionalQueryFn<TContext>,
-	options?: QueryOptions,
-): Atom.Atom<Result.Result<InferResultType<TContext>, Error> | undefined> => {
+	options?: QueryOptions<TShape, GetResult<TContext>, TKey>,
+): Atom.Atom<Result.Result<ShapedResult<TContext, TShape, TKey>, TanStackDBError>> => {
+	const queryAtom = Atom.readable((get): Result.Result<ShapedResult<TContext, TShape, TKey>, TanStackDBError> => {
+		// Build the query once, tracking dependency reads
+		let query: QueryBuilder<TContext> | null | undefined
+		try {
+			query = queryFn(new Query(), get)
+		} catch (cause) {
+			return Result.fail(new QueryCompileError({ message: "Query failed to compile", cause }))
+		}
+
+		// Unlike a loading query, a disabled query is not waiting, and it drops the data kept from before
+		if (query === null || query === undefined) {
+			return Result.initial()
+		}
+
+		return subscribeLiveQuery<TContext, ShapedResult<TContext, TShape, TKey>>(
+			get,
+			query,
+			options,
+			options?.keepPreviousData ?? true,
+		)
+	})
+
+	const retryingAtom = withRetry(queryAtom, options?.retry)
+	return options?.suspendOnWaiting ? Atom.map(retryingAtom, suspendWhileWaiting) : retryingAtom
+}
+
+/**
+ * Subscribes an atom to what an Effect resolved, passing the resolution's Initial or Failure Result through
+ */
+const subscribeResolved = <A, E, B, E2>(
+	get: Atom.Context,
+	resolved: Atom.Atom<Result.Result<A, E>>,
+	keepPreviousData: boolean,
+	subscribe: (value: A) => Result.Result<B, E2>,
+): Result.Result<B, E | E2> => {
+	const resolution = get(resolved)
+	if (Result.isSuccess(resolution)) {
+		return subscribe(resolution.value)
+	}
+
+	const result = Result.isInitial(resolution)
+		? Result.initial<B, E | E2>(resolution.waiting)
+		: Result.failure<B, E | E2>(resolution.cause)
+	return keepPreviousData ? keepPrevious(get, result) : result
+}
+
+/**
+ * Creates an Atom from a TanStack DB collection resolved from the services of an `Atom.runtime`
+ * The collection is resolved again when the runtime's Layer changes or the atom is refreshed
+ */
+export const makeRuntimeCollectionAtom = <T extends object, TKey extends string | number, E, R, ER>(
+	runtime: Atom.AtomRuntime<R, ER>,
+	collection: Effect.Effect<Collection<T, TKey, any> & NonSingleResult, E, R>,
+	options?: RuntimeCollectionAtomOptions<E | ER>,
+): Atom.Atom<Result.Result<Array<T>, TanStackDBError | E | ER>> => {
+	const collectionAtom = runtime.atom(collection)
+
+	const subscribedAtom = Atom.readable((get) =>
+		subscribeResolved(get, collectionAtom, false, (resolved) => {
+			if (isRetry(get)) {
+				resyncFailed(resolved)
+			}
+			// Start sync if not already started
+			startSync(resolved)
+
+			return subscribeCollection(get, resolved, "Collection", identity)
+		}),
+	)
+	// Refreshing resolves the collection again, and recomputes the atom even when it resolves to the same collection
+	const resolvedAtom = Atom.readable(
+		(get) => get(subscribedAtom),
+		(refresh) => {
+			refresh(collectionAtom)
+			refresh(subscribedAtom)
+		},
+	)
+
+	return withRetry(resolvedAtom, options?.retry)
+}
+
+/**
+ * Creates an Atom from a TanStack DB query built by an Effect with the services of an `Atom.runtime`
+ * The same atom definition runs against whichever Layer the runtime provides
+ */
+export const makeRuntimeQuery = <TContext extends Context, E, R, ER>(
+	runtime: Atom.AtomRuntime<R, ER>,
+	queryFn: RuntimeQueryFn<TContext, E, R>,
+	options?: RuntimeQueryOptions<E | ER>,
+): Atom.Atom<Result.Result<InferResultType<TContext>, TanStackDBError | E | ER>> => {
+	// Builder errors surface as a QueryCompileError, as they do for makeQuery
+	const builderAtom = runtime.atom(
+		Effect.suspend(() => queryFn(new Query())).pipe(
+			Effect.catchAllDefect((cause) =>
+				Effect.fail(new QueryCompileError({ message: "Query failed to compile", cause })),
+			),
+		),
+	)
+
+	const resolvedAtom = Atom.readable(
+		(get) => {
+			const keepPreviousData = options?.keepPreviousData ?? false
+			return subscribeResolved(get, builderAtom, keepPreviousData, (query) =>
+				subscribeLiveQuery(get, query, options, keepPreviousData),
+			)
+		},
+		// Refreshing builds the query again, which recomputes the atom
+		(refresh) => refresh(builderAtom),
+	)
+	const queryAtom = withRetry(resolvedAtom, options?.retry)
+
+	return options?.suspendOnWaiting ? Atom.map(queryAtom, suspendWhileWaiting) : queryAtom
+}
+
+/**
+ * Structural equality of selected values, comparing plain arrays and objects by their contents
+ */
+const structuralEquals = (a: unknown, b: unknown): boolean => Utils.structuralRegion(() => Equal.equals(a, b))
+
+/**
+ * Creates an Atom selecting a slice of a query atom's (or query function's) result
+ * The selector runs on every change, but the atom only notifies when the selected value is not equal to the previous one
+ */
+export const makeQuerySelector: {
+	<A, E, B>(
+		source: Atom.Atom<Result.Result<A, E>>,
+		selector: (value: A) => B,
+		equals?: (a: B, b: B) => boolean,
+	): Atom.Atom<Result.Result<B, E>>
+	<TContext extends Context, B>(
+		source: QueryFn<TContext>,
+		selector: (value: InferResultType<TContext>) => B,
+		equals?: (a: B, b: B) => boolean,
+	): Atom.Atom<Result.Result<B, TanStackDBError>>
+} = <A, E, B>(
+	source: Atom.Atom<Result.Result<A, E>> | QueryFn<any>,
+	selector: (value: A) => B,
+	equals: (a: B, b: B) => boolean = structuralEquals,
+): Atom.Atom<Result.Result<B, E>> => {
+	const sourceAtom = (Atom.isAtom(source) ? source : makeQuery(source)) as Atom.Atom<Result.Result<A, E>>
+
 	return Atom.readable((get) => {
-		// Create a proxy query builder to detect if query function returns null/undefined
-		// without actually executing any query methods
-		let queryReturnsNull = false
-
-		const proxyBuilder = new Proxy({} as InitialQueryBuilder, {
-			get: () => {
-				// If any method is accessed, the query is being built (not null)
-				queryReturnsNull = false
-				// Return a function that returns the proxy itself for chaining
-				return () => proxyBuilder
-			},
+		const next = Result.map(get(sourceAtom), selector)
+		const previous = get.self<Result.Result<B, E>>()
+
+		// Returning the previous Result keeps the registry from notifying subscribers
+		if (
+			Option.isSome(previous) &&
+			Result.isSuccess(previous.value) &&
+			Result.isSuccess(next) &&
+			previous.value.waiting === next.waiting &&
+			equals(previous.value.value, next.value)
+		) {
+			return previous.value
+		}
+		return next
+	})
+}
+
+/**
+ * Creates an infinite query over a sorted TanStack DB query
+ * Loading a page grows the live query's window instead of re-creating it, and all loaded pages stay reactive
+ */
+export const makeInfiniteQuery = <TContext extends Context>(
+	queryFn: QueryFn<TContext>,
+	options: InfiniteQueryOptions,
+): InfiniteQuery<GetResult<TContext>> => {
+	const { pageSize } = options
+	const pageCount = Atom.make(1)
+	// One extra row tells whether there is a next page
+	const windowSize = (pages: number) => pages * pageSize + 1
+
+	// The live query collection does not depend on the page count, so loading a page keeps it
+	const liveQueryAtom = Atom.readable(
+		(get): Either.Either<Collection<GetResult<TContext>, any, any>, QueryCompileError> => {
+			// Restarting the sync control builds a new live query collection
+			readSyncControl(get, options)
+
+			let collection: Collection<GetResult<TContext>, any, any>
+			try {
+				const query = queryFn(new Query()).limit(windowSize(get.once(pageCount)))
+				// A rebuilt live query, e.g. after a refresh, would fail again over the collections that failed
+				if (Option.isSome(get.self())) {
+					sourceCollections((query as unknown as BaseQueryBuilder)._getQuery()).forEach(resyncFailed)
+				}
+				collection = createLiveQueryCollection({ query, startSync: options.startSync ?? true, gcTime: 0 })
+				liveQueryIRs.set(collection, (query as unknown as BaseQueryBuilder)._getQuery())
+			} catch (cause) {
+				return Either.left(new QueryCompileError({ message: "Query failed to compile", cause }))
+			}
+
+			// Infinite queries are not shared, since their window grows
+			get.addFinalizer(() => {
+				collection.cleanup()
+			})
+
+			return Either.right(collection)
+		},
+	)
+
+	const dataAtom = Atom.readable(
+		(get): Result.Result<InfiniteQueryData<GetResult<TContext>>, TanStackDBError> => {
+			const sync = readSyncControl(get, options)
+			if (sync.paused) {
+				return pausedResult(get)
+			}
+			if (!sync.started) {
+				return Result.initial()
+			}
+
+			const liveQuery = get(liveQueryAtom)
+			if (Either.isLeft(liveQuery)) {
+				return Result.fail(liveQuery.left)
+			}
+
+			const pages = get(pageCount)
+			return subscribeCollection(get, liveQuery.right, "Query", (rows) => ({
+				pages: Arr.chunksOf(rows.slice(0, pages * pageSize), pageSize),
+				hasMore: rows.length > pages * pageSize,
+			}))
+		},
+		// Refreshing builds a new live query collection, since a failed one does not recover
+		(refresh) => refresh(liveQueryAtom),
+	)
+
+	const fetchNextPage = Atom.fn((_: void, get): Effect.Effect<void, TanStackDBError> => {
+		const liveQuery = get(liveQueryAtom)
+		if (Either.isLeft(liveQuery)) {
+			return Effect.fail(liveQuery.left)
+		}
+
+		const pages = get(pageCount) + 1
+		const loading = liveQuery.right.utils.setWindow({ offset: 0, limit: windowSize(pages) })
+		get.set(pageCount, pages)
+
+		// On-demand sources load the new rows asynchronously
+		return loading === true ? Effect.void : Effect.promise(() => loading)
+	})
+
+	const retryingAtom = withRetry(dataAtom, options.retry)
+	return {
+		data: options.suspendOnWaiting ? Atom.map(retryingAtom, suspendWhileWaiting) : retryingAtom,
+		fetchNextPage,
+	}
+}
+
+/**
+ * Creates atoms starting, pausing, resuming and restarting the sync of the atoms created with it
+ * Pass it as the `syncControl` option of query, infinite query and collection atoms
+ */
+export const makeSyncControl = (): SyncControl => {
+	const state = Atom.make<SyncControlState>({ status: "idle", generation: 0 }).pipe(Atom.keepAlive)
+
+	const transition = (next: (current: SyncControlState) => SyncControlState) =>
+		Atom.writable(constVoid, (ctx, _: void) => {
+			ctx.set(state, next(ctx.get(state)))
 		})
 
-		const query = queryFn(proxyBuilder)
+	const control: SyncControl = {
+		status: Atom.map(state, (current) => current.status),
+		start: transition((current) => (current.status === "idle" ? { ...current, status: "syncing" } : current)),
+		pause: transition((current) => (current.status === "paused" ? current : { ...current, status: "paused" })),
+		resume: transition((current) => (current.status === "paused" ? { ...current, status: "syncing" } : current)),
+		restart: transition((current) => ({ status: "syncing", generation: current.generation + 1 })),
+	}
+	syncControlStates.set(control, state)
+	return control
+}
 
-		if (query === null || query === undefined) {
-			queryReturnsNull = true
+/**
+ * Creates an Atom from an aggregate query, selecting its value from the result rows
+ */
+const makeAggregateQuery = <A>(
+	queryFn: QueryFn<any>,
+	select: (rows: Array<any>, collection: Collection<any, any, any>) => A,
+	options: QueryOptions | undefined,
+): Atom.Atom<Result.Result<A, TanStackDBError>> => {
+	const queryAtom = withRetry(
+		Atom.readable((get) => subscribeLiveQuery(get, queryFn, options, options?.keepPreviousData ?? false, select)),
+		options?.retry,
+	)
+
+	return options?.suspendOnWaiting ? Atom.map(queryAtom, suspendWhileWaiting) : queryAtom
+}
+
+/**
+ * Creates an Atom counting the rows of a TanStack DB query
+ * The count is maintained incrementally by the live query, and is 0 for an empty result
+ */
+export const makeCountAtom = <TContext extends Context>(
+	queryFn: QueryFn<TContext>,
+	options?: QueryOptions,
+): Atom.Atom<Result.Result<number, TanStackDBError>> =>
+	makeAggregateQuery(
+		// A constant is never null, so counting it counts every row
+		(q) => queryFn(q).select(() => ({ value: count(1) })),
+		// Aggregating no rows results in no row at all
+		(rows: Array<{ value: number }>) => rows[0]?.value ?? 0,
+		options,
+	)
+
+/**
+ * Creates an Atom with a single aggregate (`sum`, `min`, `max`, `avg`, ...) over the rows of a TanStack DB query
+ * The value is undefined for an empty result
+ */
+export const makeAggregateAtom = <TContext extends Context, T>(
+	queryFn: QueryFn<TContext>,
+	aggregate: (refs: QueryRefs<TContext>) => IR.Aggregate<T>,
+	options?: QueryOptions,
+): Atom.Atom<Result.Result<T | undefined, TanStackDBError>> =>
+	makeAggregateQuery(
+		(q) => queryFn(q).select((refs) => ({ value: aggregate(refs) })),
+		(rows: Array<{ value: T }>) => rows[0]?.value,
+		options,
+	)
+
+/**
+ * Creates an Atom with aggregates over the rows of a TanStack DB query, grouped by a single expression
+ * The result maps each group key to its aggregate values, read from the grouped rows' keys
+ */
+export const makeGroupedAtom = <
+	TContext extends Context,
+	TKeyRef,
+	TAggregates extends Record<string, IR.Aggregate<any>>,
+>(
+	queryFn: QueryFn<TContext>,
+	groupBy: (refs: QueryRefs<TContext>) => TKeyRef,
+	aggregates: (refs: QueryRefs<TContext>) => TAggregates,
+	options?: QueryOptions,
+): Atom.Atom<Result.Result<ReadonlyMap<RefValue<TKeyRef>, AggregateValues<TAggregates>>, TanStackDBError>> =>
+	makeAggregateQuery(
+		(q) => queryFn(q).groupBy(groupBy).select(aggregates),
+		// TanStack DB keys the rows of a query grouped by a single expression by the group's value
+		(rows: Array<AggregateValues<TAggregates>>, collection) =>
+			new Map(rows.map((values) => [collection.getKeyFromItem(values) as RefValue<TKeyRef>, values])),
+		options,
+	)
+
+/**
+ * Runs a collection mutation and waits for its transaction to persist
+ * Collection mutations commit right away, so interrupting only stops waiting while the transaction keeps persisting
+ */
+const persistTransaction = (
+	collection: Collection<any, any, any>,
+	mutate: () => Transaction,
+): Effect.Effect<Transaction, MutationRejectedError> =>
+	Effect.try({
+		try: mutate,
+		catch: (cause) => new MutationRejectedError({ message: "Mutation failed", collectionId: collection.id, cause }),
+	}).pipe(
+		Effect.flatMap((transaction) =>
+			Effect.tryPromise({
+				try: () => transaction.isPersisted.promise,
+				// TanStack DB has already rolled back the optimistic state at this point
+				catch: (cause) =>
+					new MutationRejectedError({ message: "Mutation failed", collectionId: collection.id, cause }),
+			}),
+		),
+	)
+
+/**
+ * Creates writable mutation atoms for a TanStack DB collection
+ * Each atom applies the mutation optimistically and tracks its persistence as a Result
+ */
+export const makeCollectionMutations = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): CollectionMutations<T, TKey> => ({
+	insert: Atom.fn((data: T | Array<T>) => persistTransaction(collection, () => collection.insert(data))),
+	update: Atom.fn(({ key, update }: UpdateMutation<T, TKey>) =>
+		persistTransaction(collection, () => collection.update(key, update)),
+	),
+	delete: Atom.fn((key: TKey | Array<TKey>) => persistTransaction(collection, () => collection.delete(key))),
+})
+
+/**
+ * Creates atoms batching optimistic mutations across collections in one TanStack DB transaction
+ * Query atoms reading the mutated collections see the optimistic state until it is persisted or rolled back
+ */
+export const makeTransactionAtom = <T extends object = Record<string, unknown>>(
+	mutationFn: MutationFn<T>,
+): TransactionAtoms<T> => {
+	const transaction = Atom.make<Result.Result<TransactionSnapshot<T>, MutationRejectedError>>(Result.initial()).pipe(
+		Atom.keepAlive,
+	)
+
+	const rejected = (current: Transaction<T>, message: string, cause: unknown) =>
+		Result.fail(new MutationRejectedError({ message, collectionId: current.mutations[0]?.collection.id, cause }))
+
+	const pending = (result: Result.Result<TransactionSnapshot<T>, MutationRejectedError>): Transaction<T> | undefined =>
+		Result.isSuccess(result) && result.value.transaction.state === "pending" ? result.value.transaction : undefined
+
+	// A new snapshot on every emission, since the registry skips Results holding an equal value
+	// and the transaction is the same mutable object while it is pending
+	const snapshot = (current: Transaction<T>): TransactionSnapshot<T> => ({
+		transaction: current,
+		mutationCount: current.mutations.length,
+	})
+
+	// Rejections are reported through the transaction atom, so a rolled back transaction
+	// without mutations does not leave its isPersisted promise rejected unhandled
+	const start = (): Transaction<T> => {
+		const created = createTransaction({ mutationFn, autoCommit: false })
+		created.isPersisted.promise.catch(constVoid)
+		return created
+	}
+
+	const mutate = Atom.writable(constVoid, (ctx, callback: () => void) => {
+		const current = pending(ctx.get(transaction)) ?? start()
+		try {
+			current.mutate(callback)
+		} catch (cause) {
+			current.rollback()
+			ctx.set(transaction, rejected(current, "Mutation failed", cause))
+			return
+		}
+		ctx.set(transaction, Result.success(snapshot(current)))
+	})
+
+	const commit = Atom.writable(constVoid, (ctx, _: void) => {
+		const current = pending(ctx.get(transaction))
+		if (current === undefined) {
+			return
+		}
+
+		ctx.set(transaction, Result.success(snapshot(current), { waiting: true }))
+		// Settling only updates the state while this is still the current transaction
+		const settle = (result: Result.Result<TransactionSnapshot<T>, MutationRejectedError>) => {
+			const latest = ctx.get(transaction)
+			if (Result.isSuccess(latest) && latest.value.transaction === current) {
+				ctx.set(transaction, result)
+			}
+		}
+		current.commit().then(
+			() => settle(Result.success(snapshot(current))),
+			// TanStack DB has already rolled back the optimistic state at this point
+			(cause) => settle(rejected(current, "Transaction failed", cause)),
+		)
+	})
+
+	const rollback = Atom.writable(constVoid, (ctx, _: void) => {
+		const current = ctx.get(transaction)
+		if (
+			Result.isSuccess(current) &&
+			(current.value.transaction.state === "pending" || current.value.transaction.state === "persisting")
+		) {
+			current.value.transaction.rollback()
+		}
+		ctx.set(transaction, Result.initial())
+	})
+
+	return { transaction, mutate, commit, rollback }
+}
+
+/**
+ * Pushes a collection's change batches into a Stream
+ * The stream fails once the collection errors or is cleaned up, and unsubscribes when its scope closes
+ */
+const streamCollection = <T extends object, A>(
+	collection: Collection<T, any, any>,
+	label: "Collection" | "Query",
+	makeHandler: (emit: StreamEmit.EmitOpsPush<TanStackDBError, A>) => (changes: Array<ChangeMessage<T>>) => void,
+	includeInitialState: boolean,
+): Stream.Stream<A, TanStackDBError> =>
+	Stream.asyncPush<A, TanStackDBError>((emit) =>
+		Effect.acquireRelease(
+			Effect.sync(() => {
+				// Start sync if not already started
+				startSync(collection)
+				const handle = makeHandler(emit)
+
+				const failOnStatus = () => {
+					const error = Result.error(statusToResult(collection, label, constUndefined))
+					if (Option.isSome(error)) {
+						emit.fail(error.value)
+					}
+				}
+
+				const offStatus = collection.on("status:change", failOnStatus)
+				const subscription = collection.subscribeChanges(handle, { includeInitialState })
+
+				failOnStatus()
+				handle([])
+
+				return () => {
+					subscription.unsubscribe()
+					offStatus()
+				}
+			}),
+			(unsubscribe) => Effect.sync(unsubscribe),
+		),
+	)
+
+const emitChanges =
+	<T extends object, TKey extends string | number>(emit: StreamEmit.EmitOpsPush<TanStackDBError, ChangeEvent<T, TKey>>) =>
+	(changes: Array<ChangeMessage<T>>) => {
+		if (changes.length > 0) {
+			emit.array(changes as Array<ChangeEvent<T, TKey>>)
+		}
+	}
+
+/**
+ * Emits the selected rows whenever they changed while the collection is ready
+ */
+const emitSnapshots =
+	<T extends object, A>(collection: Collection<T, any, any>, select: (rows: Array<T>) => A) =>
+	(emit: StreamEmit.EmitOpsPush<TanStackDBError, A>) => {
+		const view = makeRowsView(collection)
+		let last: Option.Option<A> = Option.none()
+
+		return (changes: Array<ChangeMessage<T>>) => {
+			if (collection.status !== "ready") {
+				view.reset()
+				return
+			}
+
+			view.apply(changes)
+			const value = select(view.read())
+			if (!(Option.isSome(last) && last.value === value)) {
+				last = Option.some(value)
+				emit.single(value)
+			}
+		}
+	}
+
+/**
+ * Streams a shared live query collection, releasing it when the stream's scope closes
+ */
+const streamLiveQuery = <TContext extends Context, A>(
+	queryFn: QueryFn<TContext>,
+	options: QueryOptions | undefined,
+	toStream: (liveQuery: ReturnType<typeof acquireLiveQuery>) => Stream.Stream<A, TanStackDBError>,
+): Stream.Stream<A, TanStackDBError> =>
+	Stream.unwrapScoped(
+		Effect.acquireRelease(
+			Effect.try({
+				try: () => acquireLiveQuery(queryFn(new Query()), options),
+				catch: (cause) => new QueryCompileError({ message: "Query failed to compile", cause }),
+			}),
+			(liveQuery) => Effect.sync(liveQuery.release),
+		).pipe(Effect.map(toStream)),
+	)
+
+/**
+ * Creates a Stream of a TanStack DB collection's changes
+ * The current rows are emitted as inserts first, followed by every later change
+ */
+export const collectionToStream = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): Stream.Stream<ChangeEvent<T, TKey>, TanStackDBError> =>
+	streamCollection(collection, "Collection", emitChanges<T, TKey>, true)
+
+/**
+ * Creates a Stream of a TanStack DB collection's rows
+ * Emits the full array once the collection is ready and again after every change
+ */
+export const collectionToSnapshotStream = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): Stream.Stream<Array<T>, TanStackDBError> =>
+	streamCollection(collection, "Collection", emitSnapshots(collection, identity), false)
+
+/**
+ * Creates a Stream of a TanStack DB query's result changes
+ * The current result rows are emitted as inserts first, followed by every later change
+ */
+export const queryToStream = <TContext extends Context>(
+	queryFn: QueryFn<TContext>,
+	options?: QueryOptions,
+): Stream.Stream<ChangeEvent<GetResult<TContext>>, TanStackDBError> =>
+	streamLiveQuery(queryFn, options, ({ collection }) => streamCollection(collection, "Query", emitChanges, true))
+
+/**
+ * Creates a Stream of a TanStack DB query's results
+ * Emits the full result once the query is ready and again after every change
+ */
+export const queryToSnapshotStream = <TContext extends Context>(
+	queryFn: QueryFn<TContext>,
+	options?: QueryOptions,
+): Stream.Stream<InferResultType<TContext>, TanStackDBError> =>
+	streamLiveQuery(queryFn, options, ({ collection, selectResult }) =>
+		streamCollection(collection, "Query", emitSnapshots(collection, selectResult), false),
+	)
+
+/**
+ * Wraps a persistence handler so it also receives the transaction's rows encoded with the schema
+ * An encoding failure rejects with its ParseError, rolling the transaction back
+ */
+const withEncodedRows =
+	<T extends object, I, R, TParams extends { readonly transaction: Transaction<T> }>(
+		handler: EncodedMutationFn<TParams, I>,
+		encode: (row: T) => Effect.Effect<I, ParseResult.ParseError, R>,
+		runtime: Runtime.Runtime<R>,
+	) =>
+	async (params: TParams) => {
+		const encoded = await Runtime.runPromise(runtime)(
+			Effect.either(
+				Effect.forEach(params.transaction.mutations, (mutation) =>
+					encode((mutation.type === "delete" ? mutation.original : mutation.modified) as T),
+				),
+			),
+		)
+		if (Either.isLeft(encoded)) {
+			throw encoded.left
 		}
+		return handler({ ...params, encoded: encoded.right })
+	}
+
+/**
+ * Rows hydrated from a server snapshot, keyed by collection id and taken by the collection's next sync
+ */
+const hydratedRows = new Map<string, ReadonlyArray<unknown>>()
+
+/**
+ * Schema encoders of Effect-driven collections, keyed by their sync config
+ */
+const rowEncoders = new WeakMap<
+	object,
+	(rows: Array<any>) => Effect.Effect<ReadonlyArray<unknown>, ParseResult.ParseError>
+>()
+
+/**
+ * Creates TanStack DB collection options whose sync is driven by an Effect and an optional Stream
+ * A failure puts the collection in the `error` status with the failure as its cause,
+ * and the sync fiber is interrupted when the collection is cleaned up
+ */
+export const effectCollectionOptions = <
+	T extends object,
+	TKey extends string | number,
+	E = never,
+	R = never,
+	I extends object = T,
+>(
+	config: EffectCollectionConfig<T, TKey, E, R, I>,
+): CollectionConfig<T, TKey> => {
+	const { load, changes, schema, onInvalidRow, onInsert, onUpdate, onDelete, runtime, ...options } = config
+
+	// Without a schema the synced rows already are `T`
+	const decode =
+		schema === undefined ? (row: I) => Effect.succeed(row as unknown as T) : Schema.decodeUnknown(schema)
+	const encode = schema === undefined ? (row: T) => Effect.succeed(row as unknown as I) : Schema.encode(schema)
 
-		if (queryReturnsNull) {
-			return undefined
+	// Decodes a change's row, or skips it after reporting it when invalid rows are quarantined
+	const decodeChange = (
+		change: ChangeMessageOrDeleteKeyMessage<I, TKey>,
+	): Effect.Effect<Option.Option<ChangeMessageOrDeleteKeyMessage<T, TKey>>, ParseResult.ParseError, R> => {
+		if ("key" in change) {
+			return Effect.succeedSome(change)
 		}
+		const decoded = Effect.map(decode(change.value), (value) =>
+			Option.some({ type: change.type, value, metadata: change.metadata }),
+		)
+		return onInvalidRow === undefined
+			? decoded
+			: Effect.catchTag(decoded, "ParseError", (error) => Effect.as(onInvalidRow(error, change.value), Option.none()))
+	}
 
-		// Otherwise create the query atom
-		return get(makeQuery(queryFn as QueryFn<TContext>, options))
+	const syncConfig: CollectionConfig<T, TKey>["sync"] = {
+		sync: ({ collection, begin, write, commit, markReady }) => {
+			// A new sync run starts without the previous run's failure
+			syncErrors.delete(collection)
+
+			const writeBatch = (batch: Iterable<ChangeMessageOrDeleteKeyMessage<I, TKey>>) =>
+				Effect.forEach(batch, decodeChange).pipe(
+					Effect.flatMap((decoded) =>
+						Effect.sync(() => {
+							begin()
+							for (const change of Arr.getSomes(decoded)) {
+								write(change)
+							}
+							commit()
+						}),
+					),
+				)
+
+			// Rows hydrated from a server snapshot replace the initial load
+			const hydrated = hydratedRows.get(collection.id) as ReadonlyArray<I> | undefined
+			hydratedRows.delete(collection.id)
+
+			const sync = (hydrated === undefined ? load : Effect.succeed(hydrated)).pipe(
+				Effect.flatMap((rows) => writeBatch(rows.map((value) => ({ type: "insert" as const, value })))),
+				Effect.zipRight(Effect.sync(markReady)),
+				Effect.zipRight(changes === undefined ? Effect.void : Stream.runForEachChunk(changes, writeBatch)),
+				Effect.catchAllCause((cause) =>
+					Cause.isInterruptedOnly(cause)
+						? Effect.void
+						: Effect.sync(() => failSync(collection, Cause.squash(cause))),
+				),
+			)
+
+			const fiber = Runtime.runFork(runtime)(sync)
+
+			return () => {
+				Effect.runFork(Fiber.interrupt(fiber))
+			}
+		},
+	}
+
+	// Lets `dehydrate` encode the collection's rows with the schema
+	rowEncoders.set(syncConfig, (rows) => Effect.provide(Effect.forEach(rows, (row) => encode(row)), runtime))
+
+	return {
+		...options,
+		onInsert: onInsert && withEncodedRows(onInsert, encode, runtime),
+		onUpdate: onUpdate && withEncodedRows(onUpdate, encode, runtime),
+		onDelete: onDelete && withEncodedRows(onDelete, encode, runtime),
+		sync: syncConfig,
+	}
+}
+
+/**
+ * Mounts a query atom until the scope closes, waiting until it succeeds and is no longer waiting
+ * Once it succeeded, the atom stays mounted for `keepMounted` milliseconds after the scope closed
+ */
+const mountSettled = <A, E>(
+	registry: Registry.Registry,
+	atom: Atom.Atom<Result.Result<A, E>>,
+	keepMounted = 0,
+): Effect.Effect<A, E, Scope.Scope> =>
+	Effect.gen(function* () {
+		const settled = yield* Deferred.make<A, E>()
+		yield* Effect.acquireRelease(
+			Effect.sync(() =>
+				registry.subscribe(
+					atom,
+					(result) => {
+						if (Result.isSuccess(result) && !result.waiting) {
+							Deferred.unsafeDone(settled, Effect.succeed(result.value))
+						} else if (Result.isFailure(result) && !result.waiting) {
+							// A waiting failure is retried by the atom's `retry` schedule
+							Deferred.unsafeDone(settled, Effect.failCause(result.cause))
+						}
+					},
+					{ immediate: true },
+				),
+			),
+			(unsubscribe, exit) =>
+				Effect.sync(() => {
+					if (Exit.isSuccess(exit) && keepMounted > 0) {
+						setTimeout(unsubscribe, keepMounted)
+					} else {
+						unsubscribe()
+					}
+				}),
+		)
+		return yield* Deferred.await(settled)
 	})
+
+/**
+ * Mounts a query atom and waits until its collection is ready, resolving with the atom's data
+ * The atom stays mounted for `gcTime` afterwards, so the component mounting it next renders without loading
+ */
+export const preloadQuery = <A, E>(
+	registry: Registry.Registry,
+	atom: Atom.Atom<Result.Result<A, E>>,
+	options?: PreloadOptions,
+): Effect.Effect<A, E> => Effect.scoped(mountSettled(registry, atom, options?.gcTime ?? 30_000))
+
+/**
+ * Starts a collection's sync and waits until it is ready, resolving with its rows
+ * Fails when the collection enters the `error` or `cleaned-up` status instead
+ */
+export const awaitReady = <T extends object, TKey extends string | number>(
+	collection: Collection<T, TKey, any>,
+): Effect.Effect<Array<T>, TanStackDBError> =>
+	Effect.async<Array<T>, TanStackDBError>((resume) => {
+		const settle = (): boolean => {
+			const result = statusToResult(collection, "Collection", () => collection.toArray)
+			if (Result.isInitial(result)) {
+				return false
+			}
+			resume(Result.isSuccess(result) ? Effect.succeed(result.value) : Effect.failCause(result.cause))
+			return true
+		}
+
+		startSync(collection)
+		if (settle()) {
+			return
+		}
+		const offStatus = collection.on("status:change", () => {
+			if (settle()) {
+				offStatus()
+			}
+		})
+		return Effect.sync(offStatus)
+	})
+
+/**
+ * Preloads query atoms on the server and snapshots the rows of the collections they read
+ * Rows of collections created with `effectCollectionOptions` are encoded with their schema, others are kept as is
+ */
+export const dehydrate = (
+	registry: Registry.Registry,
+	atoms: Iterable<Atom.Atom<Result.Result<unknown, TanStackDBError>>>,
+	collections: Iterable<Collection<any, any, any>>,
+): Effect.Effect<DehydratedState, TanStackDBError> =>
+	Effect.scoped(
+		Effect.gen(function* () {
+			// The atoms stay mounted until the rows are read, so their collections keep them loaded
+			yield* Effect.forEach(atoms, (atom) => mountSettled(registry, atom), { concurrency: "unbounded", discard: true })
+
+			const entries = yield* Effect.forEach(collections, (collection) => {
+				const encodeRows: (rows: Array<any>) => Effect.Effect<ReadonlyArray<unknown>, ParseResult.ParseError> =
+					rowEncoders.get(collection.config.sync) ?? Effect.succeed
+				return encodeRows(collection.toArray).pipe(
+					Effect.mapError(
+						(cause) =>
+							new RowDecodeError({
+								message: "Collection row failed to encode",
+								collectionId: collection.id,
+								cause,
+							}),
+					),
+					Effect.map((rows) => [collection.id, rows] as const),
+				)
+			})
+
+			return { collections: Object.fromEntries(entries) }
+		}),
+	)
+
+/**
+ * Hydrates a server snapshot on the client, before the collections start syncing
+ * Collections created with `effectCollectionOptions` start ready with the snapshot's rows instead of running `load`
+ */
+export const hydrate = (state: DehydratedState): void => {
+	for (const [collectionId, rows] of Object.entries(state.collections)) {
+		hydratedRows.set(collectionId, rows)
+	}
+}
+
+/**
+ * Enables diagnostics for collection and query atoms mounted from now on
+ * Returns a function disabling them again; `onEvent` receives every recorded event
+ */
+export const enableDbAtomDiagnostics = (options?: DbAtomDiagnosticsOptions): UnsubscribeFn => {
+	const state: DiagnosticsState = {
+		historySize: options?.historySize ?? 50,
+		onEvent: options?.onEvent,
+		entries: new Map(),
+		nextId: 1,
+	}
+	diagnostics = state
+
+	return () => {
+		if (diagnostics === state) {
+			diagnostics = undefined
+		}
+	}
 }
+
+/**
+ * Gets the diagnostics of every mounted collection and query atom, empty while diagnostics are disabled
+ */
+export const getDbAtomDiagnostics = (): ReadonlyArray<DbAtomDiagnostics> =>
+	diagnostics === undefined ? [] : Array.from(diagnostics.entries.values(), snapshotEntry)
@@ -1,17 +1,81 @@
 export {
+	awaitReady,
+	collectionToSnapshotStream,
+	collectionToStream,
+	dehydrate,
+	effectCollectionOptions,
+	enableDbAtomDiagnostics,
+	getDbAtomDiagnostics,
+	hydrate,
+	makeAggregateAtom,
 	makeCollectionAtom,
+	makeCollectionItemAtom,
+	makeCollectionMutations,
+	makeCollectionStatusAtom,
+	makeCountAtom,
+	makeGroupedAtom,
+	makeInfiniteQuery,
 	makeQuery,
 	makeQueryConditional,
+	makeQuerySelector,
 	makeQueryUnsafe,
+	makeReactiveQuery,
+	makeRetryAtom,
+	makeRuntimeCollectionAtom,
+	makeRuntimeQuery,
 	makeSingleCollectionAtom,
+	makeSyncControl,
+	makeTransactionAtom,
+	preloadQuery,
+	queryToSnapshotStream,
+	queryToStream,
 } from "./atom-tanstack-db"
 
+export {
+	CollectionCleanedUpError,
+	CollectionLoadError,
+	MutationRejectedError,
+	QueryCompileError,
+	RowDecodeError,
+} from "./types"
+
 export type {
+	AggregateValues,
+	ChangeEvent,
+	CollectionAtomOptions,
+	CollectionMutations,
 	CollectionStatus,
+	CollectionStatusInfo,
 	ConditionalQueryFn,
+	DbAtomChangeBatch,
+	DbAtomDiagnostics,
+	DbAtomDiagnosticsEvent,
+	DbAtomDiagnosticsOptions,
+	DbAtomStatusChange,
+	DehydratedState,
+	EffectCollectionConfig,
+	EncodedMutationFn,
+	IndexedRows,
+	InfiniteQuery,
+	InfiniteQueryData,
+	InfiniteQueryOptions,
 	InferCollectionResult,
+	PreloadOptions,
 	QueryFn,
 	QueryOptions,
+	QueryRefs,
+	ReactiveQueryFn,
+	RefValue,
+	ResultShape,
+	RuntimeCollectionAtomOptions,
+	RuntimeQueryFn,
+	RuntimeQueryOptions,
+	ShapedResult,
+	SyncControl,
+	SyncControlStatus,
 	TanStackDBError,
+	TransactionAtoms,
+	TransactionSnapshot,
 	UnsubscribeFn,
+	UpdateMutation,
 } from "./types"
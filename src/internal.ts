@@ -0,0 +1,24 @@
+/**
+ * Internal state shared by the atoms and the testing utilities
+ * Not part of the public API
+ * @since 1.0.0
+ */
+
+import type { Collection } from "@tanstack/db"
+
+/**
+ * Sync failures by collection, read as the cause of the error status
+ */
+export const syncErrors = new WeakMap<Collection<any, any, any>, unknown>()
+
+/**
+ * Puts a syncing collection in the `error` status with the failure as its cause
+ * A cleaned-up collection is no longer syncing, and a failed one keeps its first failure
+ */
+export const failSync = (collection: Collection<any, any, any>, cause: unknown): void => {
+	if (collection.status === "cleaned-up" || collection.status === "error") {
+		return
+	}
+	syncErrors.set(collection, cause)
+	collection._lifecycle.setStatus("error")
+}
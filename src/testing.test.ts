@@ -0,0 +1,141 @@
+/**
+ * Testing Utility Tests for TanStack DB Atom
+ *
+ * These tests verify that test collections are driven manually, that test registries
+ * record the values emitted by atoms, and that the Result matchers assert them.
+ *
+ * @since 1.0.0
+ */
+
+import { Result } from "@effect-atom/atom-react"
+import { eq } from "@tanstack/db"
+import * as Option from "effect/Option"
+import { describe, expect, it } from "vitest"
+import { makeCollectionAtom, makeQuery } from "./atom-tanstack-db"
+import {
+	makeTestCollection,
+	makeTestRegistry,
+	type ResultMatchers,
+	resultMatchers,
+	resultState,
+	resultStates,
+} from "./testing"
+import { CollectionLoadError } from "./types"
+
+declare module "vitest" {
+	interface Matchers<T = any> extends ResultMatchers<T> {}
+}
+
+expect.extend(resultMatchers)
+
+// Test data types
+type Todo = {
+	id: string
+	title: string
+	completed: boolean
+}
+
+const initialTodos: Array<Todo> = [
+	{ id: "1", title: "Task 1", completed: false },
+	{ id: "2", title: "Task 2", completed: true },
+]
+
+describe("makeTestCollection", () => {
+	it("should write the initial rows and mark the collection ready", () => {
+		const { collection } = makeTestCollection({
+			id: "todos",
+			getKey: (todo: Todo) => todo.id,
+			initialData: initialTodos,
+		})
+
+		expect(collection.status).toBe("ready")
+		expect(collection.toArray).toEqual(initialTodos)
+	})
+
+	it("should apply changes in one sync transaction", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { registry, record, dispose } = makeTestRegistry()
+		const recording = record(makeCollectionAtom(todos.collection))
+
+		todos.apply(
+			{ type: "insert", value: { id: "3", title: "Task 3", completed: false } },
+			{ type: "delete", key: "1" },
+		)
+
+		expect(recording.values).toHaveLength(2)
+		expect(recording.latest).toBeSuccess([initialTodos[1], { id: "3", title: "Task 3", completed: false }])
+		expect(registry.get(makeCollectionAtom(todos.collection))).toBeSuccess()
+
+		dispose()
+	})
+
+	it("should record the transition from loading to ready", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, ready: false })
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(makeQuery((q) => q.from({ todos: todos.collection })))
+
+		expect(recording.latest).toBeInitial()
+		expect(recording.latest).toBeWaiting()
+
+		todos.begin()
+		todos.write({ type: "insert", value: initialTodos[0]! })
+		todos.commit()
+		todos.markReady()
+
+		expect(recording).toHaveResultStates(["initial:waiting", "success"])
+		expect(recording.latest).toBeSuccess([initialTodos[0]])
+
+		dispose()
+	})
+
+	it("should fail atoms with the given cause", () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		const { record, dispose } = makeTestRegistry()
+		const recording = record(
+			makeQuery((q) => q.from({ todos: todos.collection }).where(({ todos }) => eq(todos.completed, false))),
+		)
+		const collectionRecording = record(makeCollectionAtom(todos.collection))
+
+		todos.fail(new Error("Connection lost"))
+
+		expect(recording).toHaveResultStates(["success", "failure"])
+		expect(collectionRecording.latest).toBeFailure("CollectionLoadError")
+		const error = Option.getOrThrow(Result.error(collectionRecording.latest))
+		expect(error).toBeInstanceOf(CollectionLoadError)
+		expect((error.cause as Error).message).toBe("Connection lost")
+
+		dispose()
+	})
+
+	it("should leave a cleaned-up collection alone when failed", async () => {
+		const todos = makeTestCollection({ id: "todos", getKey: (todo: Todo) => todo.id, initialData: initialTodos })
+		await todos.collection.cleanup()
+
+		expect(() => todos.fail(new Error("Connection lost"))).not.toThrow()
+		expect(todos.collection.status).toBe("cleaned-up")
+	})
+})
+
+describe("resultMatchers", () => {
+	it("should match Result states", () => {
+		const failure = Result.fail(new CollectionLoadError({ message: "Failed", collectionId: "todos", status: "error" }))
+
+		expect(Result.initial()).toBeInitial()
+		expect(Result.success(1)).not.toBeInitial()
+		expect(Result.success(1)).toBeSuccess(1)
+		expect(Result.success(1)).not.toBeSuccess(2)
+		expect(failure).toBeFailure()
+		expect(failure).toBeFailure("CollectionLoadError")
+		expect(failure).not.toBeFailure("QueryCompileError")
+		expect(Result.waiting(Result.success(1))).toBeWaiting()
+		expect(() => expect(Result.success(1)).toBeInitial()).toThrow(/to be an initial Result/)
+	})
+
+	it("should describe sequences of Results", () => {
+		const results = [Result.initial(true), Result.success(1), Result.waiting(Result.success(1))]
+
+		expect(resultState(Result.initial())).toBe("initial")
+		expect(resultStates(results)).toEqual(["initial:waiting", "success", "success:waiting"])
+		expect(results).toHaveResultStates(["initial:waiting", "success", "success:waiting"])
+	})
+})
@@ -0,0 +1,284 @@
+/**
+ * Test utilities for TanStack DB Atom
+ * Provides manually synced collections, registries recording atom values and matchers for Results
+ * @since 1.0.0
+ */
+
+import { type Atom, Registry, Result } from "@effect-atom/atom-react"
+import {
+	type ChangeMessageOrDeleteKeyMessage,
+	type Collection,
+	createCollection,
+	type NonSingleResult,
+	type SyncConfig,
+} from "@tanstack/db"
+import * as Inspectable from "effect/Inspectable"
+import * as Option from "effect/Option"
+import { failSync } from "./internal"
+
+/**
+ * Options for a manually synced test collection
+ */
+export interface TestCollectionOptions<T extends object, TKey extends string | number> {
+	readonly id?: string
+	readonly getKey: (item: T) => TKey
+
+	/**
+	 * Rows inserted when the collection starts syncing
+	 */
+	readonly initialData?: ReadonlyArray<T>
+
+	/**
+	 * Marks the collection ready once the initial rows are written (default: true)
+	 * Pass `false` to call `markReady` or `fail` from the test instead
+	 */
+	readonly ready?: boolean
+}
+
+/**
+ * In-memory collection whose sync is driven by the test
+ */
+export interface TestCollection<T extends object, TKey extends string | number> {
+	readonly collection: Collection<T, TKey, any> & NonSingleResult
+	readonly begin: () => void
+	readonly write: (change: ChangeMessageOrDeleteKeyMessage<T, TKey>) => void
+	readonly commit: () => void
+
+	/**
+	 * Writes the changes in one sync transaction
+	 */
+	readonly apply: (...changes: Array<ChangeMessageOrDeleteKeyMessage<T, TKey>>) => void
+	readonly markReady: () => void
+
+	/**
+	 * Puts the collection in the `error` status, reporting `cause` as the cause of the atoms' error
+	 */
+	readonly fail: (cause: unknown) => void
+}
+
+/**
+ * Creates an in-memory collection whose sync is driven manually with begin/write/commit/markReady/fail
+ * The collection starts syncing immediately
+ */
+export const makeTestCollection = <T extends object, TKey extends string | number = string | number>(
+	options: TestCollectionOptions<T, TKey>,
+): TestCollection<T, TKey> => {
+	let params: Parameters<SyncConfig<T, TKey>["sync"]>[0] | undefined
+
+	const collection = createCollection<T, TKey>({
+		id: options.id,
+		getKey: options.getKey,
+		startSync: true,
+		sync: {
+			sync: (syncParams) => {
+				params = syncParams
+				if (options.initialData !== undefined) {
+					syncParams.begin()
+					for (const value of options.initialData) {
+						syncParams.write({ type: "insert", value })
+					}
+					syncParams.commit()
+				}
+				if (options.ready ?? true) {
+					syncParams.markReady()
+				}
+			},
+		},
+	})
+
+	// The sync functions are only known once the collection started syncing, and change when it restarts
+	const sync = () => {
+		if (params === undefined) {
+			throw new Error(`Test collection ${collection.id} has not started syncing`)
+		}
+		return params
+	}
+
+	return {
+		collection,
+		begin: () => sync().begin(),
+		write: (change) => sync().write(change),
+		commit: () => sync().commit(),
+		apply: (...changes) => {
+			const { begin, write, commit } = sync()
+			begin()
+			for (const change of changes) {
+				write(change)
+			}
+			commit()
+		},
+		markReady: () => sync().markReady(),
+		fail: (cause) => failSync(collection, cause),
+	}
+}
+
+/**
+ * Values emitted by a mounted atom
+ */
+export interface AtomRecording<A> {
+	/**
+	 * Every value since the atom was mounted, starting with its value at that time
+	 */
+	readonly values: ReadonlyArray<A>
+
+	/**
+	 * The atom's current value
+	 */
+	readonly latest: A
+	readonly unmount: () => void
+}
+
+/**
+ * Registry that mounts atoms and records their values
+ */
+export interface TestRegistry {
+	readonly registry: Registry.Registry
+	readonly record: <A>(atom: Atom.Atom<A>) => AtomRecording<A>
+
+	/**
+	 * Unmounts every recorded atom and disposes the registry
+	 */
+	readonly dispose: () => void
+}
+
+/**
+ * Creates a registry whose `record` mounts an atom and records every value it emits
+ */
+export const makeTestRegistry = (options?: Parameters<typeof Registry.make>[0]): TestRegistry => {
+	const registry = Registry.make(options)
+	const unmounts = new Set<() => void>()
+
+	return {
+		registry,
+		record: <A>(atom: Atom.Atom<A>): AtomRecording<A> => {
+			const values: Array<A> = []
+			const unsubscribe = registry.subscribe(atom, (value) => values.push(value), { immediate: true })
+			const unmount = () => {
+				unsubscribe()
+				unmounts.delete(unmount)
+			}
+			unmounts.add(unmount)
+
+			return {
+				values,
+				get latest() {
+					return registry.get(atom)
+				},
+				unmount,
+			}
+		},
+		dispose: () => {
+			for (const unmount of unmounts) {
+				unmount()
+			}
+			registry.dispose()
+		},
+	}
+}
+
+/**
+ * State of a Result in a recorded sequence, e.g. `"success:waiting"` while a success is refreshing
+ */
+export type ResultState = "initial" | "success" | "failure" | "initial:waiting" | "success:waiting" | "failure:waiting"
+
+const resultTags = { Initial: "initial", Success: "success", Failure: "failure" } as const
+
+/**
+ * Gets the state of a Result
+ */
+export const resultState = (result: Result.Result<unknown, unknown>): ResultState =>
+	result.waiting ? `${resultTags[result._tag]}:waiting` : resultTags[result._tag]
+
+/**
+ * Gets the states of a sequence of Results, such as the values of an `AtomRecording`
+ */
+export const resultStates = (results: ReadonlyArray<Result.Result<unknown, unknown>>): Array<ResultState> =>
+	results.map(resultState)
+
+/**
+ * Context passed to matchers by `expect.extend` in Vitest and Jest
+ */
+interface MatcherContext {
+	readonly isNot: boolean
+	readonly equals: (a: unknown, b: unknown) => boolean
+}
+
+/**
+ * Outcome of a matcher, as expected by `expect.extend`
+ */
+interface MatcherResult {
+	readonly pass: boolean
+	readonly message: () => string
+}
+
+/**
+ * Matchers added to `expect` by `expect.extend(resultMatchers)`
+ */
+export interface ResultMatchers<R = unknown> {
+	toBeInitial(): R
+	toBeSuccess(expected?: unknown): R
+	toBeFailure(tag?: string): R
+	toBeWaiting(): R
+	toHaveResultStates(expected: ReadonlyArray<ResultState>): R
+}
+
+const describeResult = (received: unknown): string =>
+	Result.isResult(received) ? `${resultState(received)} ${Inspectable.format(received)}` : Inspectable.format(received)
+
+const matchResult = (
+	context: MatcherContext,
+	received: unknown,
+	pass: boolean,
+	expected: string,
+): MatcherResult => ({
+	pass,
+	message: () => `expected ${describeResult(received)} ${context.isNot ? "not " : ""}to be ${expected}`,
+})
+
+/**
+ * Result matchers for `expect.extend`, working with Vitest and Jest
+ */
+export const resultMatchers = {
+	toBeInitial(this: MatcherContext, received: unknown): MatcherResult {
+		return matchResult(this, received, Result.isResult(received) && Result.isInitial(received), "an initial Result")
+	},
+
+	toBeSuccess(this: MatcherContext, received: unknown, ...expected: [expected?: unknown]): MatcherResult {
+		const pass =
+			Result.isResult(received) &&
+			Result.isSuccess(received) &&
+			(expected.length === 0 || this.equals(received.value, expected[0]))
+		const description =
+			expected.length === 0 ? "a successful Result" : `a successful Result of ${Inspectable.format(expected[0])}`
+		return matchResult(this, received, pass, description)
+	},
+
+	toBeFailure(this: MatcherContext, received: unknown, tag?: string): MatcherResult {
+		const pass =
+			Result.isResult(received) &&
+			Result.isFailure(received) &&
+			(tag === undefined ||
+				Option.exists(
+					Result.error(received),
+					(error) => typeof error === "object" && error !== null && (error as { _tag?: unknown })._tag === tag,
+				))
+		return matchResult(this, received, pass, tag === undefined ? "a failed Result" : `a Result failed with ${tag}`)
+	},
+
+	toBeWaiting(this: MatcherContext, received: unknown): MatcherResult {
+		return matchResult(this, received, Result.isResult(received) && received.waiting, "a waiting Result")
+	},
+
+	toHaveResultStates(
+		this: MatcherContext,
+		received: AtomRecording<Result.Result<unknown, unknown>> | ReadonlyArray<Result.Result<unknown, unknown>>,
+		expected: ReadonlyArray<ResultState>,
+	): MatcherResult {
+		const states = resultStates("unmount" in received ? received.values : received)
+		return {
+			pass: this.equals(states, expected),
+			message: () =>
+				`expected Result states ${JSON.stringify(states)} ${this.isNot ? "not " : ""}to be ${JSON.stringify(expected)}`,
+		}
+	},
+}
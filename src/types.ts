@@ -5,20 +5,40 @@
 
 import type { Atom, Result } from "@effect-atom/atom-react"
 import type {
+	BaseCollectionConfig,
+	ChangeMessageOrDeleteKeyMessage,
 	Collection,
 	Context,
+	DeleteMutationFnParams,
 	GetResult,
 	InferResultType,
 	InitialQueryBuilder,
+	InsertMutationFnParams,
+	IR,
 	NonSingleResult,
 	QueryBuilder,
 	SingleResult,
+	Transaction,
+	UpdateMutationFnParams,
+	WritableDeep,
 } from "@tanstack/db"
+import * as Data from "effect/Data"
+import type * as Effect from "effect/Effect"
+import type * as HashMap from "effect/HashMap"
+import type * as ParseResult from "effect/ParseResult"
+import type * as Runtime from "effect/Runtime"
+import type * as Schedule from "effect/Schedule"
+import type * as Schema from "effect/Schema"
+import type * as Stream from "effect/Stream"
 
 /**
  * Options for creating a query atom
  */
-export interface QueryOptions {
+export interface QueryOptions<
+	TShape extends ResultShape = "array",
+	TRow = any,
+	TKey extends string | number = string | number,
+> {
 	/**
 	 * Garbage collection time in milliseconds
 	 * @default 0 (collection managed by atom lifecycle)
@@ -26,16 +46,157 @@ export interface QueryOptions {
 	gcTime?: number
 
 	/**
-	 * Whether to start sync immediately
+	 * Whether mounting the atom starts syncing
+	 * With `false`, the atom stays `Result.initial()` until it is started through its `syncControl`
 	 * @default true
 	 */
 	startSync?: boolean
 
+	/**
+	 * Sync control starting, pausing, resuming and restarting the atom
+	 */
+	syncControl?: SyncControl
+
+	/**
+	 * Schedule retrying the atom after it failed, e.g. `Schedule.exponential("1 second").pipe(Schedule.upTo("1 minute"))`
+	 * The failure is emitted as waiting until the schedule is exhausted
+	 */
+	retry?: Schedule.Schedule<unknown, TanStackDBError>
+
+	/**
+	 * Whether to keep emitting the last success while the query's collection loads again,
+	 * as `Result.success(previous, { waiting: true })` instead of `Result.initial(true)`
+	 * @default false for makeQuery, true for makeReactiveQuery and makeQueryConditional
+	 */
+	keepPreviousData?: boolean
+
 	/**
 	 * Whether to suspend on waiting state when used with Atom.result()
+	 * Waiting successes and failures, such as kept previous data, are reported as `Result.initial(true)`
+	 * so Atom.result() and React Suspense keep suspending until the live query collection is ready
 	 * @default false
 	 */
 	suspendOnWaiting?: boolean
+
+	/**
+	 * Shape of the query's rows: an array in the query's order, a Map or HashMap by row key,
+	 * or the array with an index of each key's position
+	 * @default "array"
+	 */
+	shape?: TShape
+
+	/**
+	 * Key of each row in the map, hashMap and indexed shapes, typing their keys
+	 * Must be unique and stable across updates, like a collection's getKey
+	 * @default the live query collection's key, which is the source collection's key for queries without joins
+	 */
+	getKey?: (row: TRow) => TKey
+}
+
+/**
+ * Shape of a query atom's rows
+ */
+export type ResultShape = "array" | "map" | "hashMap" | "indexed"
+
+/**
+ * Rows of a query in its order, with the position of each row by key
+ */
+export interface IndexedRows<T, TKey extends string | number = string | number> {
+	readonly rows: ReadonlyArray<T>
+	readonly index: ReadonlyMap<TKey, number>
+}
+
+/**
+ * Result of a query in the given shape; findOne queries keep their single row
+ * Maps keep the query's order, HashMaps do not; keys are typed by the query's `getKey` option
+ */
+export type ShapedResult<
+	TContext extends Context,
+	TShape extends ResultShape,
+	TKey extends string | number = string | number,
+> = TContext extends SingleResult
+	? InferResultType<TContext>
+	: TShape extends "map"
+		? ReadonlyMap<TKey, GetResult<TContext>>
+		: TShape extends "hashMap"
+			? HashMap.HashMap<TKey, GetResult<TContext>>
+			: TShape extends "indexed"
+				? IndexedRows<GetResult<TContext>, TKey>
+				: InferResultType<TContext>
+
+/**
+ * Options for creating a collection atom
+ * With `startSync: false`, the atom waits until the collection is started through its `syncControl` or elsewhere
+ */
+export interface CollectionAtomOptions extends Pick<QueryOptions, "startSync" | "syncControl" | "retry"> {}
+
+/**
+ * Status of a sync control: `idle` until it is started, then `syncing` or `paused`
+ */
+export type SyncControlStatus = "idle" | "syncing" | "paused"
+
+/**
+ * Atoms controlling the sync of the query and collection atoms created with it, created with `makeSyncControl`
+ * The control never stops or restarts the sync of base collections, which are shared with the rest of the app
+ */
+export interface SyncControl {
+	readonly status: Atom.Atom<SyncControlStatus>
+
+	/**
+	 * Starts the atoms created with `startSync: false`
+	 */
+	readonly start: Atom.Writable<void, void>
+
+	/**
+	 * Unsubscribes the atoms, which keep their last Result until they are resumed
+	 * Base collections keep syncing until TanStack DB garbage collects them after their `gcTime`
+	 */
+	readonly pause: Atom.Writable<void, void>
+	readonly resume: Atom.Writable<void, void>
+
+	/**
+	 * Subscribes the atoms again, building new live query collections for query atoms
+	 * The base collections are not synced again; refresh a failed atom to sync its failed collections again
+	 */
+	readonly restart: Atom.Writable<void, void>
+}
+
+/**
+ * Options for creating an infinite query
+ */
+export interface InfiniteQueryOptions
+	extends Pick<QueryOptions, "startSync" | "syncControl" | "retry" | "suspendOnWaiting"> {
+	/**
+	 * Number of rows per page
+	 */
+	pageSize: number
+}
+
+/**
+ * Loaded pages of an infinite query
+ */
+export interface InfiniteQueryData<T> {
+	/**
+	 * Loaded rows split into pages of `pageSize` rows, all kept up to date
+	 */
+	readonly pages: ReadonlyArray<ReadonlyArray<T>>
+
+	/**
+	 * Whether the query has rows beyond the loaded pages
+	 */
+	readonly hasMore: boolean
+}
+
+/**
+ * Atoms of an infinite query
+ */
+export interface InfiniteQuery<T> {
+	readonly data: Atom.Atom<Result.Result<InfiniteQueryData<T>, TanStackDBError>>
+
+	/**
+	 * Grows the query by one page, waiting while the page's rows are loaded
+	 */
+	readonly fetchNextPage: Atom.AtomResultFn<void, void, TanStackDBError>
 }
 
 /**
@@ -51,12 +212,286 @@ export type InferCollectionResult<TContext extends Context> = TContext extends S
 export type QueryFn<TContext extends Context> = (q: InitialQueryBuilder) => QueryBuilder<TContext>
 
 /**
- * Conditional query function that can return null/undefined
+ * Conditional query function that can return null/undefined to disable the query
+ * Atoms read with `get` decide whether the query is enabled
  */
 export type ConditionalQueryFn<TContext extends Context> = (
 	q: InitialQueryBuilder,
+	get: Atom.Context,
 ) => QueryBuilder<TContext> | null | undefined
 
+/**
+ * Query function that can read other atoms through the atom context
+ * The live query is re-created whenever an atom read with `get` changes
+ */
+export type ReactiveQueryFn<TContext extends Context> = (
+	q: InitialQueryBuilder,
+	get: Atom.Context,
+) => QueryBuilder<TContext>
+
+/**
+ * Row references of a query, as passed to its `select`, `groupBy` and `where` callbacks
+ */
+export type QueryRefs<TContext extends Context> = Parameters<Parameters<QueryBuilder<TContext>["select"]>[0]>[0]
+
+/**
+ * Value type of a query row reference, e.g. `string` for `refs.todos.projectId`
+ */
+export type RefValue<TRef> = TRef extends { readonly [key: symbol]: infer T } ? Exclude<T, undefined> : never
+
+/**
+ * Values of a record of aggregate expressions, e.g. `{ total: number }` for `{ total: count(refs.todos.id) }`
+ */
+export type AggregateValues<TAggregates extends Record<string, IR.Aggregate<any>>> = {
+	readonly [K in keyof TAggregates]: TAggregates[K] extends IR.Aggregate<infer T> ? T : never
+}
+
+/**
+ * Options for collection atoms resolved from the services of an `Atom.runtime`
+ */
+export interface RuntimeCollectionAtomOptions<E> {
+	/**
+	 * Schedule retrying the atom after it failed, also with the Effect's or the Layer's error
+	 * Retrying resolves the collection again
+	 */
+	retry?: Schedule.Schedule<unknown, TanStackDBError | E>
+}
+
+/**
+ * Options for query atoms built with the services of an `Atom.runtime`
+ */
+export interface RuntimeQueryOptions<E> extends Omit<QueryOptions, "retry">, RuntimeCollectionAtomOptions<E> {}
+
+/**
+ * Query function building its query in an Effect, e.g. to resolve collections from services
+ */
+export type RuntimeQueryFn<TContext extends Context, E, R> = (
+	q: InitialQueryBuilder,
+) => Effect.Effect<QueryBuilder<TContext>, E, R>
+
+/**
+ * Argument for the update mutation atom
+ */
+export interface UpdateMutation<T extends object, TKey extends string | number> {
+	/**
+	 * Key of the item to update
+	 */
+	readonly key: TKey
+
+	/**
+	 * Callback that mutates a draft of the item
+	 */
+	readonly update: (draft: WritableDeep<T>) => void
+}
+
+/**
+ * Writable mutation atoms for a collection
+ * Each atom emits the Result of the transaction's persistence
+ */
+export interface CollectionMutations<T extends object, TKey extends string | number> {
+	readonly insert: Atom.AtomResultFn<T | Array<T>, Transaction, MutationRejectedError>
+	readonly update: Atom.AtomResultFn<UpdateMutation<T, TKey>, Transaction, MutationRejectedError>
+	readonly delete: Atom.AtomResultFn<TKey | Array<TKey>, Transaction, MutationRejectedError>
+}
+
+/**
+ * The current transaction of a transaction atom with its number of mutations when it was emitted
+ * Each mutate emits a new snapshot, since the transaction itself is the same object until it settles
+ */
+export interface TransactionSnapshot<T extends object> {
+	readonly transaction: Transaction<T>
+	readonly mutationCount: number
+}
+
+/**
+ * Atoms batching optimistic mutations across collections in one TanStack DB transaction
+ */
+export interface TransactionAtoms<T extends object> {
+	/**
+	 * The current transaction: initial before the first mutation, success while pending or completed,
+	 * waiting while persisting, and failure once its persistence was rejected and rolled back
+	 */
+	readonly transaction: Atom.Atom<Result.Result<TransactionSnapshot<T>, MutationRejectedError>>
+
+	/**
+	 * Applies optimistic mutations to the pending transaction, starting a new one when there is none
+	 * A callback that throws rolls the whole transaction back, including mutations applied by earlier callbacks
+	 */
+	readonly mutate: Atom.Writable<void, () => void>
+
+	/**
+	 * Persists the pending transaction
+	 */
+	readonly commit: Atom.Writable<void, void>
+
+	/**
+	 * Rolls back and discards the current transaction
+	 */
+	readonly rollback: Atom.Writable<void, void>
+}
+
+/**
+ * A change to a collection row, as delivered by TanStack DB's subscribeChanges
+ */
+export interface ChangeEvent<T, TKey extends string | number = string | number> {
+	readonly type: "insert" | "update" | "delete"
+	readonly key: TKey
+	readonly value: T
+	readonly previousValue?: T | undefined
+}
+
+/**
+ * Persistence handler that also receives the transaction's rows encoded with the collection's schema,
+ * in the order of `transaction.mutations` (the original row for deletes)
+ */
+export type EncodedMutationFn<TParams, I> = (params: TParams & { readonly encoded: ReadonlyArray<I> }) => Promise<any>
+
+/**
+ * Options for a collection synced by an Effect
+ * With a `schema`, `load` and `changes` produce encoded rows `I` that are decoded into `T`
+ */
+export interface EffectCollectionConfig<
+	T extends object,
+	TKey extends string | number,
+	E = never,
+	R = never,
+	I extends object = T,
+> extends Omit<BaseCollectionConfig<T, TKey>, "schema" | "syncMode" | "utils" | "onInsert" | "onUpdate" | "onDelete"> {
+	/**
+	 * Loads the initial rows; the collection is marked ready once it succeeds
+	 */
+	readonly load: Effect.Effect<ReadonlyArray<I>, E, R>
+
+	/**
+	 * Changes applied after the initial load, each chunk in one sync transaction
+	 */
+	readonly changes?: Stream.Stream<ChangeMessageOrDeleteKeyMessage<I, TKey>, E, R>
+
+	/**
+	 * Schema decoding synced rows and encoding mutated rows for persistence
+	 * A row that fails to decode puts the collection in the `error` status with a `RowDecodeError`
+	 */
+	readonly schema?: Schema.Schema<T, I, R>
+
+	/**
+	 * Quarantines rows that fail to decode instead of failing the sync
+	 * The row is skipped after this Effect reports it
+	 */
+	readonly onInvalidRow?: (error: ParseResult.ParseError, row: I) => Effect.Effect<void, never, R>
+
+	/**
+	 * Persists inserted rows
+	 */
+	readonly onInsert?: EncodedMutationFn<InsertMutationFnParams<T, TKey>, I>
+
+	/**
+	 * Persists updated rows
+	 */
+	readonly onUpdate?: EncodedMutationFn<UpdateMutationFnParams<T, TKey>, I>
+
+	/**
+	 * Persists deleted rows
+	 */
+	readonly onDelete?: EncodedMutationFn<DeleteMutationFnParams<T, TKey>, I>
+
+	/**
+	 * Runtime providing the services required by `load` and `changes`
+	 */
+	readonly runtime: Runtime.Runtime<R>
+}
+
+/**
+ * Options for preloading a query atom with `preloadQuery`
+ */
+export interface PreloadOptions {
+	/**
+	 * Time in milliseconds the atom stays mounted after it resolved,
+	 * so the atom mounted next reads its already loaded collection
+	 * @default 30000
+	 */
+	gcTime?: number
+}
+
+/**
+ * Snapshot of collection rows taken on the server by `dehydrate`, keyed by collection id
+ * Rows are encoded with the collection's schema, so the state can be sent as JSON
+ */
+export interface DehydratedState {
+	readonly collections: Readonly<Record<string, ReadonlyArray<unknown>>>
+}
+
+/**
+ * Status a collection entered while an atom was subscribed
+ */
+export interface DbAtomStatusChange {
+	readonly status: CollectionStatus
+	readonly at: number
+}
+
+/**
+ * Change batch applied by an atom
+ */
+export interface DbAtomChangeBatch {
+	/**
+	 * Number of change messages in the batch
+	 */
+	readonly size: number
+
+	/**
+	 * Whether the atom emitted a new value, false when the selected value did not change
+	 */
+	readonly emitted: boolean
+
+	/**
+	 * Milliseconds spent applying the batch and notifying the atom's subscribers
+	 */
+	readonly duration: number
+	readonly at: number
+}
+
+/**
+ * Diagnostics of a mounted collection or query atom
+ */
+export interface DbAtomDiagnostics {
+	readonly id: number
+	readonly kind: "Collection" | "Query"
+	readonly collectionId: string
+
+	/**
+	 * Query IR of the live query collection, undefined for collection atoms
+	 */
+	readonly query: IR.QueryIR | undefined
+	readonly subscriberCount: number
+	readonly status: CollectionStatus
+	readonly mountedAt: number
+	readonly statusChanges: ReadonlyArray<DbAtomStatusChange>
+	readonly batches: ReadonlyArray<DbAtomChangeBatch>
+}
+
+/**
+ * Event recorded by the diagnostics
+ */
+export type DbAtomDiagnosticsEvent =
+	| { readonly _tag: "Mounted"; readonly atom: DbAtomDiagnostics }
+	| { readonly _tag: "StatusChanged"; readonly atom: DbAtomDiagnostics; readonly change: DbAtomStatusChange }
+	| { readonly _tag: "ChangeBatch"; readonly atom: DbAtomDiagnostics; readonly batch: DbAtomChangeBatch }
+	| { readonly _tag: "Unmounted"; readonly atom: DbAtomDiagnostics }
+
+/**
+ * Options for enabling the diagnostics
+ */
+export interface DbAtomDiagnosticsOptions {
+	/**
+	 * Number of status changes and change batches kept per atom (default: 50)
+	 */
+	readonly historySize?: number
+
+	/**
+	 * Receives every recorded event, e.g. to forward it to a devtools panel
+	 */
+	readonly onEvent?: (event: DbAtomDiagnosticsEvent) => void
+}
+
 /**
  * Collection subscription cleanup function
  */
@@ -68,12 +503,84 @@ export type UnsubscribeFn = () => void
 export type CollectionStatus = "idle" | "loading" | "ready" | "error" | "cleaned-up"
 
 /**
- * Error type for TanStack DB operations
+ * Status and sync metadata of a collection
  */
-export class TanStackDBError extends Error {
-	readonly _tag = "TanStackDBError"
-	constructor(message: string) {
-		super(message)
-		this.name = "TanStackDBError"
-	}
+export interface CollectionStatusInfo {
+	/**
+	 * Current status of the collection
+	 */
+	readonly status: CollectionStatus
+
+	/**
+	 * Number of items currently in the collection
+	 */
+	readonly size: number
+
+	/**
+	 * Timestamp (ms) of the last change batch received while the atom was mounted
+	 */
+	readonly lastChangeAt: number | undefined
+
+	/**
+	 * Error from the last time the collection entered the `error` status,
+	 * a RowDecodeError when a row failed its schema
+	 */
+	readonly lastError: CollectionLoadError | RowDecodeError | undefined
 }
+
+/**
+ * Raised when a collection or live query collection enters the `error` status
+ */
+export class CollectionLoadError extends Data.TaggedError("CollectionLoadError")<{
+	readonly message: string
+	readonly collectionId: string
+	readonly status: CollectionStatus
+	readonly cause?: unknown
+}> {}
+
+/**
+ * Raised when a synced row does not match the collection's schema
+ */
+export class RowDecodeError extends Data.TaggedError("RowDecodeError")<{
+	readonly message: string
+	readonly collectionId: string
+	readonly cause: ParseResult.ParseError
+}> {}
+
+/**
+ * Raised when a collection has been cleaned up while an atom is still reading it
+ */
+export class CollectionCleanedUpError extends Data.TaggedError("CollectionCleanedUpError")<{
+	readonly message: string
+	readonly collectionId: string
+}> {}
+
+/**
+ * Raised when a query function cannot be built or compiled into a live query
+ */
+export class QueryCompileError extends Data.TaggedError("QueryCompileError")<{
+	readonly message: string
+	readonly cause: unknown
+}> {}
+
+/**
+ * Raised when a mutation is rejected, either synchronously or by its persistence handler
+ */
+export class MutationRejectedError extends Data.TaggedError("MutationRejectedError")<{
+	readonly message: string
+	/**
+	 * Collection of the rejected mutation, unknown when a transaction is rejected before its first mutation
+	 */
+	readonly collectionId?: string | undefined
+	readonly cause: unknown
+}> {}
+
+/**
+ * Error type for TanStack DB operations
+ */
+export type TanStackDBError =
+	| CollectionLoadError
+	| RowDecodeError
+	| CollectionCleanedUpError
+	| QueryCompileError
+	| MutationRejectedError